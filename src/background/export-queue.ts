@@ -0,0 +1,109 @@
+// Retries task exports that failed with a rate limit or server error. The
+// popup, options page and notifications queue them; this runs on an alarm.
+
+import type { ExportDestination, QueuedExport, SyncRecord } from '../types';
+import { getSettings, getExportQueue, getExtractionById, saveExtractionTasks, recordExtractionExport } from '../lib/storage';
+import { exportTasks, withSyncRecords } from '../lib/export';
+import { exporterName } from '../lib/exporters';
+import {
+  EXPORT_RETRY_ALARM,
+  EXPORT_RETRY_INTERVAL_MINUTES,
+  MAX_EXPORT_ATTEMPTS,
+  removeQueuedExports,
+  removeExhaustedExports,
+} from '../lib/export-runner';
+import { showNotification } from './notifications';
+
+const NOTIFICATION_PREFIX = 'ate-export:';
+
+let retrying = false;
+
+export function scheduleExportRetry() {
+  chrome.alarms.create(EXPORT_RETRY_ALARM, { periodInMinutes: EXPORT_RETRY_INTERVAL_MINUTES });
+}
+
+async function saveExtractionSyncRecords(
+  extractionId: string,
+  destination: ExportDestination,
+  records: Map<string, SyncRecord>
+): Promise<void> {
+  const extraction = await getExtractionById(extractionId);
+  if (extraction) {
+    await saveExtractionTasks(extractionId, withSyncRecords(extraction.tasks, destination, records));
+  }
+}
+
+// Queued tasks are retried together when they share a destination and source
+function batchKey(item: QueuedExport): string {
+  return [item.destination, item.extractionId || '', item.sourceTitle].join('\n');
+}
+
+async function retryBatch(items: QueuedExport[]): Promise<void> {
+  const { destination, sourceTitle, extractionId } = items[0];
+  const name = exporterName(destination);
+  const tasks = items.map((item) => ({ ...item.task, selected: true }));
+  const settings = await getSettings();
+
+  try {
+    const summary = await exportTasks(destination, tasks, settings, sourceTitle, {
+      extractionId,
+      onSynced: extractionId ? (records) => saveExtractionSyncRecords(extractionId, destination, records) : undefined,
+    });
+    if (summary.exported > 0 && extractionId) {
+      await recordExtractionExport(extractionId, destination, summary.exported);
+    }
+    if (summary.exported > 0 || summary.failed > 0) {
+      showNotification(NOTIFICATION_PREFIX + destination, `Queued ${name} export`, summary.message);
+    }
+  } catch (err) {
+    // Nothing went out and a retry would not help (missing settings,
+    // revoked key, Pro expired), so the tasks leave the queue
+    await removeQueuedExports(destination, tasks.map((task) => task.id));
+    showNotification(
+      NOTIFICATION_PREFIX + destination,
+      `${tasks.length} queued task${tasks.length !== 1 ? 's' : ''} could not be exported to ${name}`,
+      err instanceof Error ? err.message : 'Export failed'
+    );
+  }
+}
+
+// Tell the user about tasks that will not be retried again
+function notifyExhausted(exhausted: QueuedExport[]) {
+  const byDestination = new Map<ExportDestination, QueuedExport[]>();
+  for (const item of exhausted) {
+    byDestination.set(item.destination, [...(byDestination.get(item.destination) || []), item]);
+  }
+  byDestination.forEach((items, destination) => {
+    showNotification(
+      NOTIFICATION_PREFIX + destination,
+      `${items.length} task${items.length !== 1 ? 's' : ''} could not be exported to ${exporterName(destination)}`,
+      items[0].lastError
+    );
+  });
+}
+
+export async function retryQueuedExports(): Promise<void> {
+  if (retrying) return;
+  retrying = true;
+
+  try {
+    const now = Date.now();
+    const due = (await getExportQueue()).filter(
+      (item) => item.nextAttemptAt <= now && item.attempts < MAX_EXPORT_ATTEMPTS
+    );
+
+    const batches = new Map<string, QueuedExport[]>();
+    for (const item of due) {
+      const key = batchKey(item);
+      batches.set(key, [...(batches.get(key) || []), item]);
+    }
+    for (const items of batches.values()) {
+      await retryBatch(items);
+    }
+
+    const exhausted = await removeExhaustedExports();
+    if (exhausted.length > 0) notifyExhausted(exhausted);
+  } finally {
+    retrying = false;
+  }
+}
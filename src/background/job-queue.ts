@@ -0,0 +1,208 @@
+// Background extraction queue. Jobs live in storage so an extraction keeps
+// running after the popup closes and the popup can reattach when reopened.
+
+import type { ExtractedTask, ExtractionJob, ExtractionJobRequest, ExtractionResult } from '../types';
+import { extractTasks } from '../lib/ai';
+import {
+  getSettings,
+  getJobs,
+  saveJobs,
+  generateId,
+  saveExtraction,
+  addToHistory,
+  trackExtraction,
+  incrementUsage,
+} from '../lib/storage';
+import { addExtractionToInbox } from '../lib/inbox';
+import { buildSimilarityIndex, flagDuplicates } from '../lib/similarity';
+
+// Finished jobs kept until the popup acknowledges them
+const MAX_STORED_JOBS = 10;
+
+// Extension API calls reset the service worker idle timer while a job runs
+const KEEP_ALIVE_INTERVAL_MS = 20 * 1000;
+
+const controllers = new Map<string, AbortController>();
+const finishedListeners: Array<(job: ExtractionJob) => void> = [];
+let processing = false;
+let writes: Promise<void> = Promise.resolve();
+
+// Serialize read-modify-write cycles on the stored job list
+function updateJobs(mutate: (jobs: ExtractionJob[]) => ExtractionJob[]): Promise<void> {
+  writes = writes
+    .then(async () => saveJobs(mutate(await getJobs())))
+    .catch((error) => console.error('[AI Task Extractor] Failed to update jobs:', error));
+  return writes;
+}
+
+function patchJob(
+  id: string,
+  patch: Partial<ExtractionJob> | ((job: ExtractionJob) => Partial<ExtractionJob>)
+): Promise<void> {
+  return updateJobs((jobs) =>
+    jobs.map((job) => {
+      if (job.id !== id) return job;
+      const changes = typeof patch === 'function' ? patch(job) : patch;
+      return { ...job, ...changes, updatedAt: Date.now() };
+    })
+  );
+}
+
+function setBadge(text: string, color = '#10B981') {
+  chrome.action.setBadgeText({ text });
+  chrome.action.setBadgeBackgroundColor({ color });
+}
+
+// Called with the final state of every job that completes, fails or is cancelled
+export function onJobFinished(listener: (job: ExtractionJob) => void): void {
+  finishedListeners.push(listener);
+}
+
+export async function startJob(request: ExtractionJobRequest): Promise<string> {
+  const now = Date.now();
+  const job: ExtractionJob = {
+    ...request,
+    id: generateId(),
+    status: 'queued',
+    tasks: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await updateJobs((jobs) => [job, ...jobs].slice(0, MAX_STORED_JOBS));
+  processQueue();
+  return job.id;
+}
+
+export async function cancelJob(id: string): Promise<void> {
+  const controller = controllers.get(id);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+  await patchJob(id, (job) => (job.status === 'queued' ? { status: 'cancelled', content: '' } : {}));
+}
+
+// Keep sync records from a notification export on the job, so exporting
+// it again after a failure updates what was already sent
+export async function saveJobTasks(id: string, tasks: ExtractedTask[]): Promise<void> {
+  await patchJob(id, { tasks });
+}
+
+// The popup has shown the job's outcome; forget it and clear the badge
+export async function acknowledgeJob(id: string): Promise<void> {
+  await updateJobs((jobs) => jobs.filter((job) => job.id !== id));
+  const jobs = await getJobs();
+  if (!jobs.some((job) => job.status === 'running' || job.status === 'queued')) {
+    setBadge('');
+  }
+}
+
+/**
+ * Jobs marked running when the service worker starts were interrupted by a
+ * restart. Put them back in the queue and resume.
+ */
+export async function resumeInterruptedJobs(): Promise<void> {
+  await updateJobs((jobs) =>
+    jobs.map((job) => (job.status === 'running' && !controllers.has(job.id) ? { ...job, status: 'queued' } : job))
+  );
+  processQueue();
+}
+
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  const keepAlive = setInterval(() => chrome.runtime.getPlatformInfo(), KEEP_ALIVE_INTERVAL_MS);
+
+  try {
+    for (;;) {
+      await writes;
+      const next = (await getJobs())
+        .filter((job) => job.status === 'queued')
+        .sort((a, b) => a.createdAt - b.createdAt)[0];
+      if (!next) break;
+      await runJob(next);
+    }
+  } finally {
+    clearInterval(keepAlive);
+    processing = false;
+  }
+}
+
+async function runJob(job: ExtractionJob): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  await patchJob(job.id, { status: 'running', tasks: [], progress: undefined, error: undefined });
+  setBadge('…');
+
+  try {
+    const settings = await getSettings();
+    const tasks = await extractTasks(job.content, job.sourceTitle, settings, job.mode, job.customRules, {
+      onProgress: (progress) => patchJob(job.id, { progress }),
+      onTask: (task) => patchJob(job.id, (current) => ({ tasks: [...current.tasks, task] })),
+      signal: controller.signal,
+      publishedAt: job.publishedAt,
+      sourceUrl: job.sourceUrl,
+    });
+
+    if (tasks.length === 0) {
+      await patchJob(job.id, {
+        status: 'failed',
+        error: 'No tasks found. Try a different page or selection with action items or meeting notes.',
+        content: '',
+      });
+      setBadge('0', '#6B7280');
+    } else {
+      await completeJob(job, tasks);
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      await patchJob(job.id, { status: 'cancelled', content: '' });
+      setBadge('');
+    } else {
+      await patchJob(job.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Extraction failed',
+        content: '',
+      });
+      setBadge('!', '#EF4444');
+    }
+  } finally {
+    controllers.delete(job.id);
+  }
+
+  const finished = (await getJobs()).find((j) => j.id === job.id);
+  if (finished) {
+    finishedListeners.forEach((listener) => listener(finished));
+  }
+}
+
+async function completeJob(job: ExtractionJob, extractedTasks: ExtractedTask[]): Promise<void> {
+  // Compare against earlier tasks before this extraction joins the index
+  const tasks = flagDuplicates(extractedTasks, await buildSimilarityIndex());
+
+  // Track analytics
+  await trackExtraction(job.mode, tasks);
+  await incrementUsage();
+
+  // Save to history
+  const extraction: ExtractionResult = {
+    id: generateId(),
+    sourceUrl: job.sourceUrl,
+    sourceTitle: job.sourceTitle,
+    tasks,
+    extractedAt: Date.now(),
+  };
+  await saveExtraction(extraction);
+  await addToHistory({
+    id: extraction.id,
+    sourceUrl: job.sourceUrl,
+    sourceTitle: job.sourceTitle,
+    taskCount: tasks.length,
+    extractedAt: extraction.extractedAt,
+  });
+  await addExtractionToInbox(extraction);
+
+  await patchJob(job.id, { status: 'completed', tasks, extractionId: extraction.id, content: '' });
+  setBadge(String(tasks.length));
+}
@@ -0,0 +1,125 @@
+// System notifications for extractions started from the context menu, with
+// one-click export to the default destination.
+
+import type { ExtractionJob, SyncRecord } from '../types';
+import { getSettings, getJobs, recordExtractionExport, saveExtractionTasks } from '../lib/storage';
+import { exportTasks, withSyncRecords, type ExportOutput } from '../lib/export';
+import { exporterLabel } from '../lib/exporters';
+import { acknowledgeJob, saveJobTasks } from './job-queue';
+
+const NOTIFICATION_PREFIX = 'ate-job:';
+const ICON_URL = 'icons/icon128.png';
+
+// Button indexes on the "tasks extracted" notification
+const EXPORT_BUTTON = 0;
+const REVIEW_BUTTON = 1;
+
+// Clipboard and downloads without a DOM: an offscreen document and chrome.downloads
+const BACKGROUND_OUTPUT: ExportOutput = {
+  async copy(text) {
+    if (!(await chrome.offscreen.hasDocument())) {
+      await chrome.offscreen.createDocument({
+        url: 'offscreen.html',
+        reasons: [chrome.offscreen.Reason.CLIPBOARD],
+        justification: 'Copy exported tasks to the clipboard',
+      });
+    }
+    const response = await chrome.runtime.sendMessage({ type: 'OFFSCREEN_COPY', text });
+    if (response?.error) throw new Error(response.error);
+  },
+  async download(content, filename, mimeType) {
+    await chrome.downloads.download({
+      url: `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`,
+      filename,
+    });
+  },
+};
+
+export function showNotification(id: string, title: string, message: string, buttons?: chrome.notifications.ButtonOptions[]) {
+  chrome.notifications.clear(id, () => {
+    chrome.notifications.create(id, {
+      type: 'basic',
+      iconUrl: ICON_URL,
+      title,
+      message,
+      buttons,
+    });
+  });
+}
+
+export async function notifyJobFinished(job: ExtractionJob): Promise<void> {
+  const id = NOTIFICATION_PREFIX + job.id;
+
+  if (job.status === 'completed') {
+    const settings = await getSettings();
+    showNotification(
+      id,
+      `${job.tasks.length} task${job.tasks.length !== 1 ? 's' : ''} extracted`,
+      job.sourceTitle,
+      [{ title: exporterLabel(settings.defaultExport) }, { title: 'Review in popup' }]
+    );
+  } else if (job.status === 'failed') {
+    showNotification(id, 'Task extraction failed', job.error || 'Extraction failed');
+  }
+}
+
+// The popup showed the job, so its notification is stale
+export function clearJobNotification(jobId: string) {
+  chrome.notifications.clear(NOTIFICATION_PREFIX + jobId);
+}
+
+async function exportJob(jobId: string, notificationId: string): Promise<void> {
+  const job = (await getJobs()).find((j) => j.id === jobId);
+  if (!job) {
+    showNotification(notificationId, 'Export failed', 'These tasks are no longer available. Open the popup to extract again.');
+    return;
+  }
+
+  const settings = await getSettings();
+  const saveSyncRecords = async (records: Map<string, SyncRecord>) => {
+    const synced = withSyncRecords(job.tasks, settings.defaultExport, records);
+    await saveJobTasks(job.id, synced);
+    if (job.extractionId) await saveExtractionTasks(job.extractionId, synced);
+  };
+
+  try {
+    const summary = await exportTasks(settings.defaultExport, job.tasks, settings, job.sourceTitle, {
+      output: BACKGROUND_OUTPUT,
+      onSynced: saveSyncRecords,
+      extractionId: job.extractionId,
+      sourceUrl: job.sourceUrl,
+    });
+    if (job.extractionId && summary.exported > 0) {
+      await recordExtractionExport(job.extractionId, settings.defaultExport, summary.exported);
+    }
+    showNotification(notificationId, summary.message, job.sourceTitle);
+    await acknowledgeJob(job.id);
+  } catch (err) {
+    showNotification(notificationId, 'Export failed', err instanceof Error ? err.message : 'Export failed');
+  }
+}
+
+// The popup reattaches to the finished job when it opens
+function openReview(notificationId: string) {
+  chrome.notifications.clear(notificationId);
+  chrome.action.openPopup().catch(() => {
+    // Not allowed outside a user gesture on some Chrome versions; the badge still points to the popup
+  });
+}
+
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return;
+  const jobId = notificationId.slice(NOTIFICATION_PREFIX.length);
+
+  if (buttonIndex === EXPORT_BUTTON) {
+    exportJob(jobId, notificationId);
+  } else if (buttonIndex === REVIEW_BUTTON) {
+    openReview(notificationId);
+  }
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (notificationId.startsWith(NOTIFICATION_PREFIX)) {
+    openReview(notificationId);
+  }
+});
@@ -1,5 +1,15 @@
 // Service worker for AI Task Extractor
 
+import type { ExtractionMode, ExtractionRule, Settings, TaskTemplate } from '../types';
+import { EXTRACTION_MODE_LABELS, DEFAULT_TEMPLATES } from '../types';
+import { getSettings, canExtract } from '../lib/storage';
+import { RETENTION_ALARM, RETENTION_INTERVAL_MINUTES, pruneStorage } from '../lib/retention';
+import { validateProviderSettings } from '../lib/providers';
+import { startJob, cancelJob, acknowledgeJob, resumeInterruptedJobs, onJobFinished } from './job-queue';
+import { notifyJobFinished, clearJobNotification, showNotification } from './notifications';
+import { EXPORT_RETRY_ALARM } from '../lib/export-runner';
+import { scheduleExportRetry, retryQueuedExports } from './export-queue';
+
 const SETTINGS_KEY = 'ate_settings';
 
 // Handle external messages from website (for license activation)
@@ -36,28 +46,144 @@ chrome.runtime.onMessageExternal.addListener((message, sender, sendResponse) =>
   sendResponse({ success: false, error: 'Unknown message type' });
 });
 
+// Context menu ids are "<source>/<mode|template>/<id>" under a parent per source
+type MenuSource = 'extract-tasks-page' | 'extract-tasks-selection';
+
+const MENU_SOURCES: Array<{ id: MenuSource; title: string; context: chrome.contextMenus.ContextType }> = [
+  { id: 'extract-tasks-page', title: 'Extract Tasks from Page', context: 'page' },
+  { id: 'extract-tasks-selection', title: 'Extract Tasks from Selection', context: 'selection' },
+];
+
+// Templates are a Pro feature, so free users only get the mode submenu
+function menuTemplates(settings: Settings): TaskTemplate[] {
+  return settings.isPro ? [...DEFAULT_TEMPLATES, ...(settings.customTemplates || [])] : [];
+}
+
+// Modes other than General are a Pro feature, as in the popup
+function menuModes(settings: Settings): ExtractionMode[] {
+  const modes = Object.keys(EXTRACTION_MODE_LABELS) as ExtractionMode[];
+  return settings.isPro ? modes : ['general'];
+}
+
 // Function to create context menus
-function setupContextMenus() {
+async function setupContextMenus() {
+  const settings = await getSettings();
+  const templates = menuTemplates(settings);
+  const modes = menuModes(settings);
+
   // Remove existing menus first to avoid duplicates
   chrome.contextMenus.removeAll(() => {
-    // Create context menu for extracting tasks from full page
-    chrome.contextMenus.create({
-      id: 'extract-tasks-page',
-      title: 'Extract Tasks from Page',
-      contexts: ['page'],
-    });
+    for (const source of MENU_SOURCES) {
+      chrome.contextMenus.create({
+        id: source.id,
+        title: source.title,
+        contexts: [source.context],
+      });
 
-    // Create context menu for extracting tasks from selected text
-    chrome.contextMenus.create({
-      id: 'extract-tasks-selection',
-      title: 'Extract Tasks from Selection',
-      contexts: ['selection'],
-    });
+      for (const mode of modes) {
+        chrome.contextMenus.create({
+          id: `${source.id}/mode/${mode}`,
+          parentId: source.id,
+          title: EXTRACTION_MODE_LABELS[mode],
+          contexts: [source.context],
+        });
+      }
+
+      if (templates.length > 0) {
+        chrome.contextMenus.create({
+          id: `${source.id}/separator`,
+          parentId: source.id,
+          type: 'separator',
+          contexts: [source.context],
+        });
+        for (const template of templates) {
+          chrome.contextMenus.create({
+            id: `${source.id}/template/${template.id}`,
+            parentId: source.id,
+            title: `${template.icon} ${template.name}`,
+            contexts: [source.context],
+          });
+        }
+      }
+    }
 
     console.log('[AI Task Extractor] Context menus registered');
   });
 }
 
+// Rebuild the mode and template submenus when Pro status or custom templates change
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  const change = changes[SETTINGS_KEY];
+  if (areaName !== 'local' || !change) return;
+  const before = change.oldValue || {};
+  const after = change.newValue || {};
+  if (
+    before.isPro !== after.isPro ||
+    JSON.stringify(before.customTemplates) !== JSON.stringify(after.customTemplates)
+  ) {
+    setupContextMenus();
+  }
+});
+
+// Run a context-menu extraction in the background and notify when done
+async function extractFromContextMenu(info: chrome.contextMenus.OnClickData, tab: chrome.tabs.Tab) {
+  const [source, kind, id] = String(info.menuItemId).split('/') as [MenuSource, 'mode' | 'template', string];
+  const settings = await getSettings();
+
+  let mode: ExtractionMode = settings.defaultExtractionMode || 'general';
+  let customRules: ExtractionRule[] | undefined;
+  if (kind === 'mode') {
+    mode = id as ExtractionMode;
+  } else {
+    const template = menuTemplates(settings).find((t) => t.id === id);
+    if (template) {
+      mode = template.extractionMode;
+      customRules = template.customRules;
+    }
+  }
+  // Menus built before a downgrade can still offer Pro modes
+  if (!menuModes(settings).includes(mode)) {
+    mode = 'general';
+  }
+
+  const notificationId = `ate-menu:${Date.now()}`;
+  const usage = await canExtract();
+  if (!usage.allowed) {
+    showNotification(notificationId, 'Task extraction failed', 'Daily limit reached. Upgrade to Pro for unlimited extractions.');
+    return;
+  }
+  const providerError = validateProviderSettings(settings);
+  if (providerError) {
+    showNotification(notificationId, 'Task extraction failed', providerError);
+    return;
+  }
+
+  let content = '';
+  let title = tab.title || 'Selected Text';
+  let url = tab.url || '';
+  let publishedAt: string | undefined;
+  if (source === 'extract-tasks-selection') {
+    content = info.selectionText || '';
+  } else {
+    try {
+      const response = await chrome.tabs.sendMessage(tab.id!, { type: 'GET_PAGE_CONTENT' });
+      content = response?.content || '';
+      title = response?.title || title;
+      url = response?.url || url;
+      publishedAt = response?.publishedAt;
+    } catch {
+      // Content script not loaded on this tab
+    }
+  }
+
+  if (!content) {
+    showNotification(notificationId, 'Task extraction failed', 'Could not extract page content. Try refreshing the page.');
+    return;
+  }
+
+  await startJob({ content, sourceUrl: url, sourceTitle: title, mode, customRules, publishedAt, notify: true });
+}
+
 // Create context menus on install AND on service worker startup
 chrome.runtime.onInstalled.addListener(() => {
   setupContextMenus();
@@ -99,34 +225,14 @@ setupContextMenus();
 
 // Handle context menu clicks
 chrome.contextMenus.onClicked.addListener((info, tab) => {
-  if (info.menuItemId === 'extract-tasks-page' && tab?.id) {
-    // Store that we want full page extraction
-    chrome.storage.local.set({ ate_extract_mode: 'page' }, () => {
-      // Show badge to prompt user to click extension icon
-      chrome.action.setBadgeText({ text: '!' });
-      chrome.action.setBadgeBackgroundColor({ color: '#10B981' });
-      // Clear badge after 5 seconds
-      setTimeout(() => {
-        chrome.action.setBadgeText({ text: '' });
-      }, 5000);
-    });
+  if (tab?.id && String(info.menuItemId).includes('/')) {
+    extractFromContextMenu(info, tab);
   }
+});
 
-  if (info.menuItemId === 'extract-tasks-selection' && tab?.id && info.selectionText) {
-    // Store selected text for extraction
-    chrome.storage.local.set({
-      ate_extract_mode: 'selection',
-      ate_selected_text: info.selectionText,
-    }, () => {
-      // Show badge to prompt user to click extension icon
-      chrome.action.setBadgeText({ text: '!' });
-      chrome.action.setBadgeBackgroundColor({ color: '#10B981' });
-      // Clear badge after 5 seconds
-      setTimeout(() => {
-        chrome.action.setBadgeText({ text: '' });
-      }, 5000);
-    });
-  }
+// Notify about context-menu extractions when they finish
+onJobFinished((job) => {
+  if (job.notify) notifyJobFinished(job);
 });
 
 // Handle messages from popup and content scripts
@@ -153,6 +259,26 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === 'START_EXTRACTION_JOB') {
+    startJob(message.payload).then((jobId) => {
+      sendResponse({ jobId });
+    }).catch((error) => {
+      sendResponse({ error: error.message });
+    });
+    return true;
+  }
+
+  if (message.type === 'CANCEL_EXTRACTION_JOB') {
+    cancelJob(message.jobId).then(() => sendResponse({ success: true }));
+    return true;
+  }
+
+  if (message.type === 'ACKNOWLEDGE_EXTRACTION_JOB') {
+    clearJobNotification(message.jobId);
+    acknowledgeJob(message.jobId).then(() => sendResponse({ success: true }));
+    return true;
+  }
+
   if (message.type === 'INJECT_CONTENT_SCRIPT') {
     const tabId = message.tabId;
     if (tabId) {
@@ -191,6 +317,26 @@ chrome.runtime.onStartup.addListener(() => {
   scheduleDailyReset();
 });
 
+// Prune history and cached extractions to the retention window and storage budget
+async function runRetention() {
+  const result = await pruneStorage(await getSettings());
+  if (result.historyRemoved > 0 || result.extractionsRemoved > 0) {
+    console.log('[AI Task Extractor] Retention pruned', result);
+  }
+}
+
+function scheduleRetention() {
+  chrome.alarms.create(RETENTION_ALARM, { periodInMinutes: RETENTION_INTERVAL_MINUTES });
+  runRetention();
+}
+
+chrome.runtime.onInstalled.addListener(scheduleRetention);
+chrome.runtime.onStartup.addListener(scheduleRetention);
+
+// Exports that failed with a rate limit or server error are retried on an alarm
+chrome.runtime.onInstalled.addListener(scheduleExportRetry);
+chrome.runtime.onStartup.addListener(scheduleExportRetry);
+
 chrome.alarms.onAlarm.addListener((alarm) => {
   if (alarm.name === 'daily-reset') {
     // Reset daily usage count
@@ -200,6 +346,17 @@ chrome.alarms.onAlarm.addListener((alarm) => {
     });
     console.log('[AI Task Extractor] Daily usage reset');
   }
+
+  if (alarm.name === RETENTION_ALARM) {
+    runRetention();
+  }
+
+  if (alarm.name === EXPORT_RETRY_ALARM) {
+    retryQueuedExports();
+  }
 });
 
+// Pick up extraction jobs interrupted by a service worker restart
+resumeInterruptedJobs();
+
 console.log('[AI Task Extractor] Service worker started');
@@ -1,9 +1,88 @@
 // Content script for extracting page content
 
+import type { ExtractionMode, PageSignals, SiteInfoResponse } from '../types';
+import { findSiteAdapter } from './site-adapters';
+
 interface PageContent {
   content: string;
   title: string;
   url: string;
+  publishedAt?: string;
+  site?: string; // Name of the site adapter that read the page
+  suggestedMode?: ExtractionMode;
+}
+
+// Where pages state when the content was written
+const PUBLISHED_DATE_SELECTORS: Array<[string, string]> = [
+  ['meta[property="article:published_time"]', 'content'],
+  ['meta[itemprop="datePublished"]', 'content'],
+  ['meta[name="date"]', 'content'],
+  ['meta[name="publish-date"]', 'content'],
+  ['article time[datetime], main time[datetime]', 'datetime'],
+];
+
+// The page's publish date as an ISO string, if it states one
+function findPublishedDate(): string | undefined {
+  for (const [selector, attribute] of PUBLISHED_DATE_SELECTORS) {
+    const value = document.querySelector(selector)?.getAttribute(attribute);
+    const date = value ? new Date(value) : null;
+    if (date && !Number.isNaN(date.getTime())) return date.toISOString();
+  }
+
+  // JSON-LD articles
+  for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+    const match = script.textContent?.match(/"datePublished"\s*:\s*"([^"]+)"/);
+    const date = match ? new Date(match[1]) : null;
+    if (date && !Number.isNaN(date.getTime())) return date.toISOString();
+  }
+
+  return undefined;
+}
+
+// Long content is split into sections by the extractor; this cap only guards against runaway pages
+const MAX_CONTENT_LENGTH = 250000;
+
+function truncateContent(content: string): string {
+  return content.length > MAX_CONTENT_LENGTH
+    ? content.substring(0, MAX_CONTENT_LENGTH) + '\n\n[Content truncated...]'
+    : content;
+}
+
+// Read the page through its site adapter, falling back to the generic extractor
+async function getPageContent(): Promise<PageContent> {
+  const adapter = findSiteAdapter(window.location.href);
+  const siteContent = await adapter?.extract();
+  const content = siteContent ? cleanContent(siteContent.content) : '';
+  if (!adapter || !siteContent || !content) {
+    return { ...extractPageContent(), site: adapter?.name, suggestedMode: adapter?.suggestedMode };
+  }
+
+  return {
+    content: truncateContent(content),
+    title: siteContent.title || document.title,
+    url: window.location.href,
+    publishedAt: siteContent.publishedAt || findPublishedDate(),
+    site: adapter.name,
+    suggestedMode: adapter.suggestedMode,
+  };
+}
+
+// How much of the page the mode classifier reads
+const SIGNAL_TEXT_LENGTH = 5000;
+const SIGNAL_HEADING_COUNT = 50;
+
+// Cheap page features for the popup's mode classifier; nothing is sent anywhere
+function collectPageSignals(): PageSignals {
+  const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, [role="heading"]'))
+    .map((heading) => heading.textContent?.replace(/\s+/g, ' ').trim() || '')
+    .filter((text) => text && text.length <= 100)
+    .slice(0, SIGNAL_HEADING_COUNT);
+
+  return {
+    headings,
+    mailtoLinks: document.querySelectorAll('a[href^="mailto:"]').length,
+    textSample: (document.body?.innerText || '').substring(0, SIGNAL_TEXT_LENGTH),
+  };
 }
 
 // Extract meaningful text content from the page
@@ -43,13 +122,7 @@ function extractPageContent(): PageContent {
   // Clean up the content
   content = cleanContent(content);
 
-  // Limit content length to avoid API limits
-  const maxLength = 15000;
-  if (content.length > maxLength) {
-    content = content.substring(0, maxLength) + '\n\n[Content truncated...]';
-  }
-
-  return { content, title, url };
+  return { content: truncateContent(content), title, url, publishedAt: findPublishedDate() };
 }
 
 // Extract text while preserving some structure
@@ -151,16 +224,27 @@ function cleanContent(content: string): string {
 // Listen for messages from popup
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message.type === 'GET_PAGE_CONTENT') {
-    try {
-      const pageContent = extractPageContent();
-      sendResponse(pageContent);
-    } catch (error) {
-      sendResponse({
-        error: error instanceof Error ? error.message : 'Failed to extract page content',
+    getPageContent()
+      .then(sendResponse)
+      .catch((error) => {
+        sendResponse({
+          error: error instanceof Error ? error.message : 'Failed to extract page content',
+        });
       });
-    }
     return true;
   }
+
+  // Lets the popup suggest a mode before anything is extracted
+  if (message.type === 'GET_SITE_INFO') {
+    const adapter = findSiteAdapter(window.location.href);
+    const info: SiteInfoResponse = {
+      site: adapter?.name,
+      suggestedMode: adapter?.suggestedMode,
+      signals: collectPageSignals(),
+    };
+    sendResponse(info);
+    return false;
+  }
 });
 
 // Log that content script is loaded
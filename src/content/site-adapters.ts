@@ -0,0 +1,244 @@
+// Site adapters for the content script. The generic extractor reads a page's
+// main element, which on web apps picks up navigation, inbox lists and
+// sidebars. An adapter knows where one site keeps the content worth reading
+// and returns it as plain text; when it finds nothing (say, Gmail with no
+// thread open) the generic extractor runs instead.
+//
+// Only the content script imports this module.
+
+import type { ExtractionMode } from '../types';
+
+export interface SiteContent {
+  content: string;
+  title?: string;
+  publishedAt?: string; // ISO date of the latest message, when the site shows one
+}
+
+export interface SiteAdapter {
+  id: string;
+  name: string; // Shown in the popup, e.g. "Gmail"
+  suggestedMode: ExtractionMode;
+  matches: (url: URL) => boolean;
+  extract: () => Promise<SiteContent | null>;
+}
+
+// Visible text with line breaks kept
+function textOf(element: Element | null | undefined): string {
+  return ((element as HTMLElement | null)?.innerText || element?.textContent || '').trim();
+}
+
+function toIsoDate(value: string | null | undefined): string | undefined {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+// One message of a thread, as "From: Name (date)" followed by the text
+function formatMessage(sender: string, date: string, body: string): string {
+  const header = [sender && `From: ${sender}`, date && `(${date})`].filter(Boolean).join(' ');
+  return header ? `${header}\n${body}` : body;
+}
+
+function joinMessages(messages: string[]): string {
+  return messages.filter(Boolean).join('\n\n---\n\n');
+}
+
+// The latest valid date among messages
+function latestDate(dates: Array<string | undefined>): string | undefined {
+  return dates.filter((d): d is string => !!d).sort().pop();
+}
+
+// Gmail: the open thread, one entry per expanded message
+const gmailAdapter: SiteAdapter = {
+  id: 'gmail',
+  name: 'Gmail',
+  suggestedMode: 'email',
+  matches: (url) => url.hostname === 'mail.google.com',
+  async extract() {
+    const messages = Array.from(document.querySelectorAll('div.adn'));
+    if (messages.length === 0) return null;
+
+    const dates: Array<string | undefined> = [];
+    const parts = messages.map((message) => {
+      const senderElement = message.querySelector('span.gD');
+      const email = senderElement?.getAttribute('email');
+      const sender = [senderElement?.getAttribute('name') || textOf(senderElement), email && `<${email}>`]
+        .filter(Boolean)
+        .join(' ');
+      const dateElement = message.querySelector('span.g3');
+      const date = dateElement?.getAttribute('title') || textOf(dateElement);
+      dates.push(toIsoDate(date));
+      return formatMessage(sender, date, textOf(message.querySelector('div.a3s')));
+    });
+
+    const subject = textOf(document.querySelector('h2.hP'));
+    return {
+      content: [subject && `Subject: ${subject}`, joinMessages(parts)].filter(Boolean).join('\n\n'),
+      title: subject || undefined,
+      publishedAt: latestDate(dates),
+    };
+  },
+};
+
+// Outlook on the web: the reading pane. Its markup has few stable class
+// names, so this relies on ARIA labels.
+const outlookAdapter: SiteAdapter = {
+  id: 'outlook',
+  name: 'Outlook',
+  suggestedMode: 'email',
+  matches: (url) => /^outlook\.(live|office|office365)\.com$/.test(url.hostname),
+  async extract() {
+    const pane = document.querySelector('#ReadingPaneContainerId, [aria-label="Reading Pane"]');
+    if (!pane) return null;
+
+    const bodies = Array.from(pane.querySelectorAll('[aria-label="Message body"]'));
+    const subject = textOf(pane.querySelector('[role="heading"]'));
+    const content = bodies.length > 0 ? joinMessages(bodies.map((body) => textOf(body))) : textOf(pane);
+    if (!content) return null;
+
+    return {
+      content: [subject && `Subject: ${subject}`, content].filter(Boolean).join('\n\n'),
+      title: subject || undefined,
+    };
+  },
+};
+
+// Google Docs draws the document on a canvas, so the text comes from the
+// plain-text export, which uses the signed-in session
+const googleDocsAdapter: SiteAdapter = {
+  id: 'google-docs',
+  name: 'Google Docs',
+  suggestedMode: 'general',
+  matches: (url) => url.hostname === 'docs.google.com' && url.pathname.startsWith('/document/d/'),
+  async extract() {
+    const docId = window.location.pathname.split('/')[3];
+    try {
+      const response = await fetch(`https://docs.google.com/document/d/${docId}/export?format=txt`, {
+        credentials: 'include',
+      });
+      if (response.ok) {
+        const content = (await response.text()).trim();
+        if (content) return { content, title: document.title.replace(/ - Google Docs$/, '') };
+      }
+    } catch {
+      // Export blocked (e.g. download disabled by the owner); try the DOM
+    }
+
+    // Documents still on the HTML renderer
+    const paragraphs = Array.from(document.querySelectorAll('.kix-paragraphrenderer')).map(textOf);
+    const content = paragraphs.filter(Boolean).join('\n');
+    return content ? { content, title: document.title.replace(/ - Google Docs$/, '') } : null;
+  },
+};
+
+// Notion: the page's blocks, with to-dos marked done or open
+const notionAdapter: SiteAdapter = {
+  id: 'notion',
+  name: 'Notion',
+  suggestedMode: 'general',
+  matches: (url) => url.hostname === 'www.notion.so' || url.hostname.endsWith('.notion.site'),
+  async extract() {
+    const page = document.querySelector('.notion-page-content');
+    if (!page) return null;
+
+    // Only the innermost blocks are read, so nested text is not repeated
+    const blocks = Array.from(page.querySelectorAll('[data-block-id]')).filter(
+      (block) => !block.querySelector('[data-block-id]')
+    );
+    const lines = blocks.map((block) => {
+      const text = textOf(block);
+      if (!text) return '';
+      if (block.classList.contains('notion-to_do-block')) {
+        const done = !!block.querySelector('svg.check');
+        return `${done ? '[x]' : '[ ]'} ${text}`;
+      }
+      if (block.classList.contains('notion-header-block')) return `# ${text}`;
+      if (block.classList.contains('notion-sub_header-block')) return `## ${text}`;
+      if (block.classList.contains('notion-sub_sub_header-block')) return `### ${text}`;
+      if (block.classList.contains('notion-bulleted_list-block') || block.classList.contains('notion-numbered_list-block')) {
+        return `• ${text}`;
+      }
+      return text;
+    });
+
+    const content = lines.filter(Boolean).join('\n');
+    const title = textOf(document.querySelector('.notion-page-block h1, .notion-frame h1'));
+    return content ? { content, title: title || undefined } : null;
+  },
+};
+
+// GitHub issues and pull requests: the description and every comment.
+// Both the classic and the React issue views are covered.
+const githubAdapter: SiteAdapter = {
+  id: 'github',
+  name: 'GitHub',
+  suggestedMode: 'general',
+  matches: (url) => url.hostname === 'github.com' && /^\/[^/]+\/[^/]+\/(issues|pull)\/\d+/.test(url.pathname),
+  async extract() {
+    const comments = Array.from(
+      document.querySelectorAll('.timeline-comment, [data-testid="issue-body"], .react-issue-comment')
+    );
+    if (comments.length === 0) return null;
+
+    const dates: Array<string | undefined> = [];
+    const parts = comments.map((comment) => {
+      const author = textOf(comment.querySelector('.author, [data-testid="avatar-link"]'));
+      const datetime = comment.querySelector('relative-time')?.getAttribute('datetime');
+      dates.push(toIsoDate(datetime));
+      const body = textOf(comment.querySelector('.comment-body, .markdown-body'));
+      return body ? formatMessage(author, datetime || '', body) : '';
+    });
+
+    const title = textOf(document.querySelector('.js-issue-title, [data-testid="issue-title"]'));
+    return {
+      content: [title && `# ${title}`, joinMessages(parts)].filter(Boolean).join('\n\n'),
+      title: title || undefined,
+      publishedAt: latestDate(dates),
+    };
+  },
+};
+
+// Slack: the open thread, or the channel's visible messages when no thread is open
+const slackAdapter: SiteAdapter = {
+  id: 'slack',
+  name: 'Slack',
+  suggestedMode: 'meeting',
+  matches: (url) => url.hostname === 'app.slack.com',
+  async extract() {
+    const container =
+      document.querySelector('[data-qa="threads_flexpane"], .p-threads_flexpane') ||
+      document.querySelector('.p-workspace__primary_view');
+    if (!container) return null;
+
+    const messages = Array.from(container.querySelectorAll('.c-message_kit__message, [data-qa="message_container"]'));
+    if (messages.length === 0) return null;
+
+    // Follow-up messages from the same person have no sender of their own
+    let sender = '';
+    const dates: Array<string | undefined> = [];
+    const parts = messages.map((message) => {
+      sender = textOf(message.querySelector('[data-qa="message_sender_name"]')) || sender;
+      const timestamp = message.querySelector('[data-ts]')?.getAttribute('data-ts');
+      const date = timestamp ? new Date(Number(timestamp) * 1000).toISOString() : undefined;
+      dates.push(date);
+      const text = textOf(message.querySelector('[data-qa="message-text"], .c-message_kit__blocks'));
+      return text ? formatMessage(sender, date || '', text) : '';
+    });
+
+    const content = joinMessages(parts);
+    return content ? { content, publishedAt: latestDate(dates) } : null;
+  },
+};
+
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  gmailAdapter,
+  outlookAdapter,
+  googleDocsAdapter,
+  notionAdapter,
+  githubAdapter,
+  slackAdapter,
+];
+
+export function findSiteAdapter(href: string): SiteAdapter | undefined {
+  const url = new URL(href);
+  return SITE_ADAPTERS.find((adapter) => adapter.matches(url));
+}
@@ -1,6 +1,20 @@
-import type { AIProvider, ExtractedTask, ExtractionMode, Settings, SubTask, RecurringPattern, TimeEstimate, ExtractionRule } from '../types';
-import { buildExtractionPrompt } from './prompts';
+import type { AIProviderConfig, ExtractedTask, ExtractionProgress, ExtractionMode, Settings, SubTask, RecurringPattern, TimeEstimate, ExtractionRule } from '../types';
+import { buildExtractionPrompt, buildRepairPrompt } from './prompts';
 import { generateId } from './storage';
+import { applyExtractionRules } from './rules';
+import {
+  buildAuthHeaders,
+  getProvider,
+  getProviderApiKey,
+  getProviderModel,
+  providerUrl,
+  validateProviderSettings,
+} from './providers';
+import { chunkContent, mapWithConcurrency, mergeExtractedTasks } from './chunking';
+import { TASK_SCHEMA, TASKS_RESPONSE_SCHEMA, validateSchema } from './schema';
+import { createTaskStreamParser, readServerSentEvents } from './stream-parser';
+import { getReferenceDate, resolveTaskDueDate } from './dates';
+import { parseTranscript, formatTranscript, transcriptSpeakers, resolveCommitment } from './transcript';
 
 interface OpenAIResponse {
   choices: Array<{
@@ -10,73 +24,192 @@ interface OpenAIResponse {
   }>;
 }
 
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
 interface AnthropicResponse {
   content: Array<{
-    text: string;
+    type: 'text' | 'tool_use';
+    text?: string;
+    name?: string;
+    input?: unknown;
   }>;
 }
 
-async function callOpenAI(apiKey: string, prompt: string): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+interface AnthropicStreamEvent {
+  type: string;
+  content_block?: { type: 'text' | 'tool_use'; name?: string };
+  delta?: { type: 'text_delta' | 'input_json_delta'; text?: string; partial_json?: string };
+  error?: { message: string };
+}
+
+// Callbacks and cancellation for a streamed AI request
+interface StreamOptions {
+  onText?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+// Name of the tool Anthropic models are forced to call with the extracted tasks
+const RECORD_TASKS_TOOL = 'record_tasks';
+
+// A parsed model reply and any ways it failed to match the schema
+interface ValidatedResponse {
+  value: unknown;
+  errors: string[];
+}
+
+async function callOpenAI(
+  provider: AIProviderConfig,
+  apiKey: string,
+  model: string,
+  prompt: string,
+  stream: StreamOptions = {}
+): Promise<string> {
+  const response = await fetch(providerUrl(provider, 'chat/completions'), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
+      ...buildAuthHeaders(provider, apiKey),
     },
     body: JSON.stringify({
-      model: 'gpt-4o-mini',
+      model,
       messages: [{ role: 'user', content: prompt }],
       temperature: 0.3,
       max_tokens: 4000,
+      stream: true,
+      // Native JSON schema output where the endpoint supports it
+      ...(provider.structuredOutput !== false && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'extracted_tasks', schema: TASKS_RESPONSE_SCHEMA },
+        },
+      }),
     }),
+    signal: stream.signal,
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`OpenAI API error: ${error}`);
+    throw new Error(`${provider.name} API error: ${error}`);
+  }
+
+  // Some OpenAI-compatible servers ignore `stream` and reply in one piece
+  if (!isEventStream(response)) {
+    const data: OpenAIResponse = await response.json();
+    const content = data.choices[0].message.content;
+    stream.onText?.(content);
+    return content;
   }
 
-  const data: OpenAIResponse = await response.json();
-  return data.choices[0].message.content;
+  let content = '';
+  await readServerSentEvents(response, (data) => {
+    if (data === '[DONE]') return;
+    const chunk: OpenAIStreamChunk = JSON.parse(data);
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      stream.onText?.(delta);
+    }
+  });
+  return content;
 }
 
-async function callAnthropic(apiKey: string, prompt: string): Promise<string> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+async function callAnthropic(
+  provider: AIProviderConfig,
+  apiKey: string,
+  model: string,
+  prompt: string,
+  stream: StreamOptions = {}
+): Promise<string> {
+  const response = await fetch(providerUrl(provider, 'messages'), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'x-api-key': apiKey,
+      ...buildAuthHeaders(provider, apiKey),
       'anthropic-version': '2023-06-01',
       'anthropic-dangerous-direct-browser-access': 'true',
     },
     body: JSON.stringify({
-      model: 'claude-3-5-haiku-latest',
+      model,
       max_tokens: 4000,
+      stream: true,
       messages: [{ role: 'user', content: prompt }],
+      // Tool use forces the reply into the task schema
+      ...(provider.structuredOutput !== false && {
+        tools: [{
+          name: RECORD_TASKS_TOOL,
+          description: 'Record the actionable tasks extracted from the content',
+          input_schema: TASKS_RESPONSE_SCHEMA,
+        }],
+        tool_choice: { type: 'tool', name: RECORD_TASKS_TOOL },
+      }),
     }),
+    signal: stream.signal,
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Anthropic API error: ${error}`);
+    throw new Error(`${provider.name} API error: ${error}`);
+  }
+
+  if (!isEventStream(response)) {
+    const data: AnthropicResponse = await response.json();
+    const toolUse = data.content.find((block) => block.type === 'tool_use' && block.name === RECORD_TASKS_TOOL);
+    const content = toolUse ? JSON.stringify(toolUse.input) : data.content.find((block) => block.type === 'text')?.text || '';
+    stream.onText?.(content);
+    return content;
   }
 
-  const data: AnthropicResponse = await response.json();
-  return data.content[0].text;
+  // The tool input arrives as partial JSON deltas; plain text is the fallback
+  let toolInput = '';
+  let text = '';
+  let inTool = false;
+  await readServerSentEvents(response, (data) => {
+    const event: AnthropicStreamEvent = JSON.parse(data);
+    switch (event.type) {
+      case 'content_block_start':
+        inTool = event.content_block?.type === 'tool_use' && event.content_block.name === RECORD_TASKS_TOOL;
+        break;
+      case 'content_block_delta':
+        if (inTool && event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+          toolInput += event.delta.partial_json;
+          stream.onText?.(event.delta.partial_json);
+        } else if (event.delta?.type === 'text_delta' && event.delta.text) {
+          text += event.delta.text;
+          stream.onText?.(event.delta.text);
+        }
+        break;
+      case 'error':
+        throw new Error(`${provider.name} API error: ${event.error?.message || 'stream failed'}`);
+    }
+  });
+  return toolInput || text;
 }
 
 async function callAI(
-  provider: AIProvider,
+  provider: AIProviderConfig,
   apiKey: string,
-  prompt: string
+  model: string,
+  prompt: string,
+  stream: StreamOptions = {}
 ): Promise<string> {
-  if (provider === 'openai') {
-    return callOpenAI(apiKey, prompt);
-  } else {
-    return callAnthropic(apiKey, prompt);
+  switch (provider.apiFormat) {
+    case 'anthropic':
+      return callAnthropic(provider, apiKey, model, prompt, stream);
+    default:
+      return callOpenAI(provider, apiKey, model, prompt, stream);
   }
 }
 
+function isEventStream(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes('text/event-stream');
+}
+
 function extractJSON(text: string): string {
   // Try to extract JSON from markdown code blocks
   const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -99,91 +232,208 @@ const VALID_TIME_ESTIMATES: TimeEstimate[] = ['15min', '30min', '1h', '2h', '4h'
 // Valid recurring frequencies
 const VALID_FREQUENCIES = ['daily', 'weekly', 'biweekly', 'monthly', 'quarterly', 'yearly'];
 
+// Parse a model reply and check it against the task schema
+function validateResponse(response: string): ValidatedResponse {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJSON(response));
+  } catch (err) {
+    return { value: null, errors: [`Response is not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  return { value, errors: validateSchema(value, TASKS_RESPONSE_SCHEMA) };
+}
+
+// Convert a schema-valid reply into tasks
+function normalizeTasks(value: unknown): ExtractedTask[] {
+  const parsed = value as { tasks: Array<{
+    title: string;
+    description?: string | null;
+    priority: 'high' | 'medium' | 'low';
+    category: string;
+    assignee?: string | null;
+    dueDate?: string | null;
+    dueDateText?: string | null;
+    context?: string | null;
+    confidence?: number | null;
+    subTasks?: Array<{ title: string }> | null;
+    recurring?: { frequency: string; description?: string; dayOfWeek?: number | null; dayOfMonth?: number | null } | null;
+    timeEstimate?: string | null;
+    sender?: string | null;
+    attendees?: string[] | null;
+    commitment?: { speaker: string; timestamp?: string | null; quote?: string | null } | null;
+  }> };
+
+  return parsed.tasks.map((task) => {
+    // Parse sub-tasks
+    let subTasks: SubTask[] | undefined;
+    if (task.subTasks && Array.isArray(task.subTasks) && task.subTasks.length > 0) {
+      subTasks = task.subTasks.map((st) => ({
+        id: generateId(),
+        title: st.title,
+        completed: false,
+      }));
+    }
+
+    // Parse recurring pattern
+    let recurring: RecurringPattern | undefined;
+    if (task.recurring && task.recurring.frequency && VALID_FREQUENCIES.includes(task.recurring.frequency)) {
+      recurring = {
+        frequency: task.recurring.frequency as RecurringPattern['frequency'],
+        description: task.recurring.description || `Repeats ${task.recurring.frequency}`,
+        dayOfWeek: task.recurring.dayOfWeek ?? undefined,
+        dayOfMonth: task.recurring.dayOfMonth ?? undefined,
+      };
+    }
+
+    // Parse time estimate
+    let timeEstimate: TimeEstimate | undefined;
+    if (task.timeEstimate && VALID_TIME_ESTIMATES.includes(task.timeEstimate as TimeEstimate)) {
+      timeEstimate = task.timeEstimate as TimeEstimate;
+    }
+
+    return {
+      id: generateId(),
+      title: task.title,
+      description: task.description || undefined,
+      priority: task.priority || 'medium',
+      category: (task.category as ExtractedTask['category']) || 'action',
+      assignee: task.assignee || undefined,
+      dueDate: task.dueDate || undefined,
+      dueDateText: task.dueDateText || undefined,
+      context: task.context || undefined,
+      confidence: typeof task.confidence === 'number' ? task.confidence : 0.7,
+      selected: true,
+      subTasks,
+      recurring,
+      timeEstimate,
+      sender: task.sender || undefined,
+      attendees: task.attendees && task.attendees.length > 0 ? task.attendees : undefined,
+      commitment: task.commitment?.speaker
+        ? {
+            speaker: task.commitment.speaker,
+            timestamp: task.commitment.timestamp || undefined,
+            quote: task.commitment.quote || undefined,
+          }
+        : undefined,
+    };
+  });
+}
+
+/**
+ * Extract tasks for one prompt. Each task is passed to `onTask` as soon as its
+ * object closes in the stream. A reply that fails schema validation gets one
+ * repair request that shows the model its reply and the validation errors.
+ */
+async function extractSection(
+  provider: AIProviderConfig,
+  apiKey: string,
+  model: string,
+  prompt: string,
+  onTask?: (task: ExtractedTask) => void,
+  signal?: AbortSignal
+): Promise<ExtractedTask[]> {
+  const parser = createTaskStreamParser((raw) => {
+    if (validateSchema(raw, TASK_SCHEMA).length === 0) {
+      onTask?.(normalizeTasks({ tasks: [raw] })[0]);
+    }
+  });
+
+  const response = await callAI(provider, apiKey, model, prompt, {
+    onText: onTask ? (delta) => parser.push(delta) : undefined,
+    signal,
+  });
+  const first = validateResponse(response);
+  if (first.errors.length === 0) {
+    return normalizeTasks(first.value);
+  }
+
+  const repaired = await callAI(provider, apiKey, model, buildRepairPrompt(prompt, response, first.errors), { signal });
+  const second = validateResponse(repaired);
+  if (second.errors.length === 0) {
+    return normalizeTasks(second.value);
+  }
+
+  throw new Error(`AI response did not match the expected format (${second.errors.slice(0, 3).join('; ')}). Please try again.`);
+}
+
+export interface ExtractTasksOptions {
+  onProgress?: (progress: ExtractionProgress) => void;
+  // Called with each task as it streams in, before sections are merged
+  onTask?: (task: ExtractedTask) => void;
+  // Aborts in-flight AI requests
+  signal?: AbortSignal;
+  // When the content was written (ISO date); relative due dates count from it
+  publishedAt?: string;
+  // Where the content came from; transcript timestamps link into it when it is a recording
+  sourceUrl?: string;
+}
+
+// Number of sections sent to the AI provider at the same time
+const MAX_CONCURRENT_SECTIONS = 2;
+
 export async function extractTasks(
   content: string,
   title: string,
   settings: Settings,
   mode: ExtractionMode = 'general',
-  customRules?: ExtractionRule[]
+  customRules?: ExtractionRule[],
+  options: ExtractTasksOptions = {}
 ): Promise<ExtractedTask[]> {
-  const apiKey = settings.aiProvider === 'openai'
-    ? settings.openaiApiKey
-    : settings.anthropicApiKey;
-
-  if (!apiKey) {
-    throw new Error(`Please configure your ${settings.aiProvider === 'openai' ? 'OpenAI' : 'Anthropic'} API key in settings`);
+  const configError = validateProviderSettings(settings);
+  const provider = getProvider(settings);
+  if (configError || !provider) {
+    throw new Error(configError || 'No AI provider selected');
   }
+  const apiKey = getProviderApiKey(settings, provider);
+  const model = getProviderModel(settings, provider);
 
   // Use custom rules if provided, otherwise use settings rules
   const rules = customRules || settings.extractionRules || [];
-  const prompt = buildExtractionPrompt(content, title, mode, rules);
-  const response = await callAI(settings.aiProvider, apiKey, prompt);
+  const referenceDate = getReferenceDate(options.publishedAt);
 
-  try {
-    const jsonStr = extractJSON(response);
-    const parsed = JSON.parse(jsonStr) as { tasks: Array<{
-      title: string;
-      description?: string;
-      priority: 'high' | 'medium' | 'low';
-      category: string;
-      assignee?: string;
-      dueDate?: string;
-      context?: string;
-      confidence?: number;
-      subTasks?: Array<{ title: string }>;
-      recurring?: { frequency: string; description?: string; dayOfWeek?: number; dayOfMonth?: number };
-      timeEstimate?: string;
-      sender?: string;
-      attendees?: string[];
-    }> };
-
-    return parsed.tasks.map((task) => {
-      // Parse sub-tasks
-      let subTasks: SubTask[] | undefined;
-      if (task.subTasks && Array.isArray(task.subTasks) && task.subTasks.length > 0) {
-        subTasks = task.subTasks.map((st) => ({
-          id: generateId(),
-          title: st.title,
-          completed: false,
-        }));
-      }
-
-      // Parse recurring pattern
-      let recurring: RecurringPattern | undefined;
-      if (task.recurring && task.recurring.frequency && VALID_FREQUENCIES.includes(task.recurring.frequency)) {
-        recurring = {
-          frequency: task.recurring.frequency as RecurringPattern['frequency'],
-          description: task.recurring.description || `Repeats ${task.recurring.frequency}`,
-          dayOfWeek: task.recurring.dayOfWeek,
-          dayOfMonth: task.recurring.dayOfMonth,
-        };
-      }
-
-      // Parse time estimate
-      let timeEstimate: TimeEstimate | undefined;
-      if (task.timeEstimate && VALID_TIME_ESTIMATES.includes(task.timeEstimate as TimeEstimate)) {
-        timeEstimate = task.timeEstimate as TimeEstimate;
-      }
-
-      return {
-        id: generateId(),
-        title: task.title,
-        description: task.description,
-        priority: task.priority || 'medium',
-        category: (task.category as ExtractedTask['category']) || 'action',
-        assignee: task.assignee || undefined,
-        dueDate: task.dueDate || undefined,
-        context: task.context,
-        confidence: typeof task.confidence === 'number' ? task.confidence : 0.7,
-        selected: true,
-        subTasks,
-        recurring,
-        timeEstimate,
-        sender: task.sender || undefined,
-        attendees: task.attendees && task.attendees.length > 0 ? task.attendees : undefined,
-      };
-    });
-  } catch {
-    throw new Error('Failed to parse AI response. Please try again.');
+  // Transcripts are sent as one "[hh:mm:ss] Speaker: words" paragraph per turn
+  let speakers: string[] = [];
+  if (mode === 'transcript') {
+    const turns = parseTranscript(content);
+    if (turns.length > 0) {
+      content = formatTranscript(turns);
+      speakers = transcriptSpeakers(turns);
+    }
   }
+  // Date resolution, plus the commitment's speaker and recording link in transcript mode
+  const finishTask = (task: ExtractedTask) => {
+    const resolved = resolveTaskDueDate(task, referenceDate);
+    return mode === 'transcript' ? resolveCommitment(resolved, speakers, options.sourceUrl) : resolved;
+  };
+
+  // Long pages are split into overlapping sections and extracted separately
+  const chunks = chunkContent(content);
+  const progress: ExtractionProgress = {
+    completedSections: 0,
+    totalSections: chunks.length,
+    tasksFound: 0,
+  };
+  options.onProgress?.({ ...progress });
+
+  const results = await mapWithConcurrency(chunks, MAX_CONCURRENT_SECTIONS, async (chunk, index) => {
+    const section = chunks.length > 1 ? { index: index + 1, total: chunks.length } : undefined;
+    const prompt = buildExtractionPrompt(chunk, title, mode, rules, section, referenceDate);
+    const onTask = options.onTask && ((task: ExtractedTask) => {
+      // Streamed tasks get the same post-processing and local rules as the final list
+      applyExtractionRules([finishTask(task)], rules).forEach(options.onTask!);
+    });
+    const sectionTasks = (await extractSection(provider, apiKey, model, prompt, onTask, options.signal))
+      .map(finishTask);
+
+    progress.completedSections += 1;
+    progress.tasksFound += sectionTasks.length;
+    options.onProgress?.({ ...progress });
+
+    return sectionTasks;
+  });
+
+  const tasks = mergeExtractedTasks(results.flat());
+
+  // Enforce custom rules locally instead of trusting the model to follow them
+  return applyExtractionRules(tasks, rules);
 }
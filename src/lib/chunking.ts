@@ -0,0 +1,172 @@
+import type { ExtractedTask, SubTask } from '../types';
+
+// Sized to stay well within the context window of the smallest supported model
+export const DEFAULT_CHUNK_SIZE = 12000;
+export const DEFAULT_CHUNK_OVERLAP = 800;
+
+export interface ChunkOptions {
+  maxChunkSize?: number;
+  overlap?: number;
+}
+
+interface Section {
+  heading?: string;
+  text: string;
+}
+
+const HEADING_LINE = /^#{1,6}\s+\S/;
+
+// Split content into sections at the markdown-style headings the content script emits
+function splitIntoSections(content: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { text: '' };
+
+  for (const line of content.split('\n')) {
+    if (HEADING_LINE.test(line.trim())) {
+      if (current.text.trim()) sections.push(current);
+      current = { heading: line.trim(), text: line + '\n' };
+    } else {
+      current.text += line + '\n';
+    }
+  }
+  if (current.text.trim()) sections.push(current);
+
+  return sections;
+}
+
+// Break text that is too long on its own into pieces, preferring paragraph and line boundaries
+function splitOversized(text: string, maxSize: number): string[] {
+  if (text.length <= maxSize) return [text];
+
+  const pieces: string[] = [];
+  let remaining = text;
+  while (remaining.length > maxSize) {
+    const window = remaining.slice(0, maxSize);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < maxSize / 2) cut = window.lastIndexOf('\n');
+    if (cut < maxSize / 2) cut = window.lastIndexOf(' ');
+    if (cut <= 0) cut = maxSize;
+    pieces.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut);
+  }
+  if (remaining.trim()) pieces.push(remaining);
+  return pieces;
+}
+
+// Take the last `size` characters of a chunk, starting at a line or word boundary
+function tailForOverlap(text: string, size: number): string {
+  if (size <= 0) return '';
+  const tail = text.trimEnd().slice(-size);
+  const lineStart = tail.indexOf('\n');
+  if (lineStart >= 0 && tail.length - lineStart > size / 4) return tail.slice(lineStart + 1);
+  const wordStart = tail.indexOf(' ');
+  return wordStart >= 0 ? tail.slice(wordStart + 1) : tail;
+}
+
+/**
+ * Split page content into overlapping chunks that follow heading boundaries.
+ * Short content comes back as a single chunk. Each later chunk starts with the
+ * tail of the previous one so tasks that straddle a boundary are not lost.
+ */
+export function chunkContent(content: string, options: ChunkOptions = {}): string[] {
+  const maxSize = options.maxChunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(maxSize / 4));
+
+  if (content.length <= maxSize) return [content];
+
+  // Flatten sections into pieces that each fit in a chunk, keeping the heading with continuations
+  const pieces: string[] = [];
+  for (const section of splitIntoSections(content)) {
+    const parts = splitOversized(section.text, maxSize - overlap - 200);
+    parts.forEach((part, i) => {
+      pieces.push(i > 0 && section.heading ? `${section.heading} (continued)\n${part}` : part);
+    });
+  }
+
+  // Greedily pack pieces into chunks
+  const packed: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > maxSize - overlap) {
+      packed.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current.trim()) packed.push(current);
+
+  return packed.map((chunk, i) => {
+    if (i === 0) return chunk;
+    const context = tailForOverlap(packed[i - 1], overlap);
+    return context ? `[...previous section]\n${context}\n[...]\n${chunk}` : chunk;
+  });
+}
+
+/**
+ * Run `worker` over every item with at most `limit` calls in flight.
+ * Results keep the input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function run(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  }
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, () => run());
+  await Promise.all(runners);
+  return results;
+}
+
+// Normalize a title so near-identical tasks from overlapping chunks compare equal
+export function normalizeTaskTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function mergeSubTasks(a?: SubTask[], b?: SubTask[]): SubTask[] | undefined {
+  if (!a || a.length === 0) return b;
+  if (!b || b.length === 0) return a;
+  const seen = new Set(a.map((st) => normalizeTaskTitle(st.title)));
+  return [...a, ...b.filter((st) => !seen.has(normalizeTaskTitle(st.title)))];
+}
+
+/**
+ * Merge tasks extracted from separate chunks into one deduplicated list.
+ * Duplicates keep the higher-confidence version and fill in any fields it lacks.
+ */
+export function mergeExtractedTasks(tasks: ExtractedTask[]): ExtractedTask[] {
+  const byTitle = new Map<string, ExtractedTask>();
+
+  for (const task of tasks) {
+    const key = normalizeTaskTitle(task.title);
+    const existing = byTitle.get(key);
+    if (!existing) {
+      byTitle.set(key, task);
+      continue;
+    }
+
+    const [primary, secondary] =
+      (task.confidence ?? 0) > (existing.confidence ?? 0) ? [task, existing] : [existing, task];
+
+    byTitle.set(key, {
+      ...secondary,
+      ...Object.fromEntries(Object.entries(primary).filter(([, v]) => v !== undefined)),
+      id: existing.id,
+      subTasks: mergeSubTasks(primary.subTasks, secondary.subTasks),
+    } as ExtractedTask);
+  }
+
+  return Array.from(byTitle.values());
+}
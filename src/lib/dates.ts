@@ -0,0 +1,190 @@
+import type { ExtractedTask } from '../types';
+
+// Due date resolution. The model is told the reference date and asked for
+// both a resolved date and the phrase it came from; common phrases are then
+// resolved again here so "by Friday" does not depend on the model's arithmetic.
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0,
+  feb: 1, february: 1,
+  mar: 2, march: 2,
+  apr: 3, april: 3,
+  may: 4,
+  jun: 5, june: 5,
+  jul: 6, july: 6,
+  aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  oct: 9, october: 9,
+  nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+// Words around a date that do not change it, e.g. "due by Friday"
+const LEADING_WORDS = /^(?:due\s+|no later than\s+|by\s+|before\s+|on\s+|until\s+|till\s+|for\s+)+/;
+
+// Local calendar date as YYYY-MM-DD
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Midnight on the day relative dates are counted from: the page's publish
+ * or email's sent date when known, otherwise today.
+ */
+export function getReferenceDate(publishedAt?: string): Date {
+  const parsed = publishedAt ? new Date(publishedAt) : new Date();
+  const date = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function endOfMonth(year: number, month: number): Date {
+  return new Date(year, month + 1, 0);
+}
+
+// Monday of the week the date falls in
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+// The next given weekday; the reference day itself counts only when `includeToday` is set
+function upcomingWeekday(reference: Date, weekday: number, includeToday = true): Date {
+  const days = (weekday - reference.getDay() + 7) % 7;
+  return addDays(reference, days === 0 && !includeToday ? 7 : days);
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day;
+}
+
+// A month and day with no year is the next one on or after the reference date
+function calendarDate(reference: Date, month: number, day: number, year?: number): Date | null {
+  const fullYear = year !== undefined && year < 100 ? 2000 + year : year;
+  const resolvedYear = fullYear ?? reference.getFullYear();
+  if (!isValidDate(resolvedYear, month, day)) return null;
+  const date = new Date(resolvedYear, month, day);
+  if (fullYear === undefined && date < reference) {
+    return isValidDate(resolvedYear + 1, month, day) ? new Date(resolvedYear + 1, month, day) : null;
+  }
+  return date;
+}
+
+function resolve(phrase: string, reference: Date): Date | null {
+  if (ISO_DATE.test(phrase)) {
+    const [year, month, day] = phrase.split('-').map(Number);
+    return isValidDate(year, month - 1, day) ? new Date(year, month - 1, day) : null;
+  }
+
+  if (/^(?:today|tonight|eod|cob|end of (?:the )?day|close of business)$/.test(phrase)) return reference;
+  if (phrase === 'tomorrow') return addDays(reference, 1);
+  if (phrase === 'day after tomorrow' || phrase === 'the day after tomorrow') return addDays(reference, 2);
+
+  // "friday", "this friday", "next friday". A bare weekday means the next
+  // one after today; "next" skips the rest of the current week.
+  let match = phrase.match(/^(this |next |coming |the coming )?([a-z]+)$/);
+  if (match && match[2] in WEEKDAYS) {
+    const date = upcomingWeekday(reference, WEEKDAYS[match[2]], match[1] === 'this ');
+    const sameWeek = startOfWeek(date).getTime() === startOfWeek(reference).getTime();
+    return match[1] === 'next ' && sameWeek ? addDays(date, 7) : date;
+  }
+
+  if (/^(?:eow|end of (?:the |this )?week|this week)$/.test(phrase)) return upcomingWeekday(reference, 5);
+  if (phrase === 'next week') return addDays(startOfWeek(reference), 7);
+  if (phrase === 'end of next week') return addDays(startOfWeek(reference), 11);
+  if (/^(?:eom|end of (?:the |this )?month)$/.test(phrase)) {
+    return endOfMonth(reference.getFullYear(), reference.getMonth());
+  }
+  if (phrase === 'end of next month') return endOfMonth(reference.getFullYear(), reference.getMonth() + 1);
+  if (/^(?:end of (?:the )?quarter|eoq)$/.test(phrase)) {
+    return endOfMonth(reference.getFullYear(), Math.floor(reference.getMonth() / 3) * 3 + 2);
+  }
+  if (/^(?:eoy|end of (?:the |this )?year)$/.test(phrase)) return new Date(reference.getFullYear(), 11, 31);
+
+  // "in 3 days", "in two weeks", "a week from now"
+  match = phrase.match(/^(?:in |within )?([a-z]+|\d+) (day|week|month)s?(?: from (?:now|today))?$/);
+  if (match && (match[1] in NUMBER_WORDS || /^\d+$/.test(match[1]))) {
+    const count = NUMBER_WORDS[match[1]] ?? Number(match[1]);
+    switch (match[2]) {
+      case 'day':
+        return addDays(reference, count);
+      case 'week':
+        return addDays(reference, count * 7);
+      default:
+        return new Date(reference.getFullYear(), reference.getMonth() + count, reference.getDate());
+    }
+  }
+
+  // "october 20", "oct 20th, 2026"
+  match = phrase.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  if (match && match[1] in MONTHS) {
+    return calendarDate(reference, MONTHS[match[1]], Number(match[2]), match[3] ? Number(match[3]) : undefined);
+  }
+
+  // "20 october", "20th of oct 2026"
+  match = phrase.match(/^(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)\.?(?:,? (\d{4}))?$/);
+  if (match && match[2] in MONTHS) {
+    return calendarDate(reference, MONTHS[match[2]], Number(match[1]), match[3] ? Number(match[3]) : undefined);
+  }
+
+  // "10/20" or "10/20/2026". Month first unless the first number cannot be a month.
+  match = phrase.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (match) {
+    let [month, day] = [Number(match[1]), Number(match[2])];
+    if (month > 12) [month, day] = [day, month];
+    return calendarDate(reference, month - 1, day, match[3] ? Number(match[3]) : undefined);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a date phrase such as "by Friday", "end of month" or "Oct 20"
+ * against the reference date. Returns YYYY-MM-DD, or undefined for phrases
+ * that need context the text does not give (e.g. "next sprint").
+ */
+export function resolveDatePhrase(text: string, reference: Date): string | undefined {
+  const phrase = text
+    .toLowerCase()
+    .trim()
+    .replace(/[.!?,;:]+$/, '')
+    .replace(/\s+/g, ' ')
+    .replace(LEADING_WORDS, '');
+  const date = resolve(phrase, reference);
+  return date ? formatDate(date) : undefined;
+}
+
+/**
+ * Settle a task's due date. A phrase resolved here wins over the model's
+ * date; a phrase that cannot be resolved keeps the model's date if it is a
+ * valid YYYY-MM-DD. A model date that is itself a phrase is kept as the
+ * phrase so the popup can show it.
+ */
+export function resolveTaskDueDate(task: ExtractedTask, reference: Date): ExtractedTask {
+  const modelDate = task.dueDate && ISO_DATE.test(task.dueDate) ? resolveDatePhrase(task.dueDate, reference) : undefined;
+  const dueDateText = task.dueDateText || (task.dueDate && !modelDate ? task.dueDate : undefined);
+  const localDate = dueDateText ? resolveDatePhrase(dueDateText, reference) : undefined;
+  return { ...task, dueDate: localDate || modelDate, dueDateText };
+}
@@ -0,0 +1,173 @@
+import type { ExportDestination, ExtractedTask, QueuedExport } from '../types';
+import { getExportQueue, saveExportQueue } from './storage';
+
+// Waits between attempts of one request; Retry-After wins when the API sends it
+const RETRY_DELAYS_MS = [1000, 3000, 9000];
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+// Alarm that retries queued exports in the service worker
+export const EXPORT_RETRY_ALARM = 'export-retry';
+export const EXPORT_RETRY_INTERVAL_MINUTES = 5;
+
+// Queued exports are dropped after this many failed attempts
+export const MAX_EXPORT_ATTEMPTS = 5;
+
+// A failed API request. Rate limits and server errors are worth retrying
+// later; other errors (bad credentials, invalid fields) are not.
+export class ExportRequestError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ExportRequestError';
+    this.retryable = retryable;
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof ExportRequestError) return error.retryable;
+  // fetch rejects with a TypeError when the request never reached the server
+  return error instanceof TypeError;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS);
+  return RETRY_DELAYS_MS[attempt];
+}
+
+/**
+ * fetch, retried with backoff on 429, 5xx and network errors. The last
+ * response is returned once the retries run out, so callers still check
+ * `response.ok`.
+ */
+export async function fetchWithRetry(url: string, init?: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= RETRY_DELAYS_MS.length;
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (isLastAttempt) throw error;
+      await sleep(RETRY_DELAYS_MS[attempt]);
+      continue;
+    }
+    if (isLastAttempt || !isRetryableStatus(response.status)) return response;
+    await sleep(retryDelay(response, attempt));
+  }
+}
+
+// Per-task outcome
+
+export interface ExportFailure {
+  taskId: string;
+  error: string;
+  retryable: boolean;
+}
+
+export interface ExportReport {
+  exported: string[];
+  failed: ExportFailure[];
+}
+
+// Export tasks one at a time; a failed task is reported and the rest still go out
+export async function runPerTask(
+  tasks: ExtractedTask[],
+  exportOne: (task: ExtractedTask) => Promise<void>
+): Promise<ExportReport> {
+  const report: ExportReport = { exported: [], failed: [] };
+  for (const task of tasks) {
+    try {
+      await exportOne(task);
+      report.exported.push(task.id);
+    } catch (error) {
+      report.failed.push({
+        taskId: task.id,
+        error: error instanceof Error ? error.message : 'Export failed',
+        retryable: isRetryableError(error),
+      });
+    }
+  }
+  return report;
+}
+
+// Retry queue
+
+// Where a queued task came from, so a retry can update the stored extraction
+export interface ExportContext {
+  sourceTitle: string;
+  extractionId?: string;
+}
+
+function queueId(destination: ExportDestination, taskId: string): string {
+  return `${destination}:${taskId}`;
+}
+
+/**
+ * Queue failed tasks for a later retry. A task already in the queue keeps
+ * its place and counts another attempt; the wait doubles with each attempt.
+ */
+export async function queueFailedExports(
+  destination: ExportDestination,
+  tasks: ExtractedTask[],
+  failures: ExportFailure[],
+  context: ExportContext
+): Promise<void> {
+  const queue = await getExportQueue();
+  const now = Date.now();
+  const intervalMs = EXPORT_RETRY_INTERVAL_MINUTES * 60 * 1000;
+
+  for (const failure of failures) {
+    const task = tasks.find((t) => t.id === failure.taskId);
+    if (!task) continue;
+
+    const id = queueId(destination, task.id);
+    const existing = queue.find((item) => item.id === id);
+    const attempts = (existing?.attempts || 0) + 1;
+    const item: QueuedExport = {
+      id,
+      destination,
+      task,
+      sourceTitle: context.sourceTitle,
+      extractionId: context.extractionId,
+      attempts,
+      lastError: failure.error,
+      queuedAt: existing?.queuedAt || now,
+      nextAttemptAt: now + intervalMs * 2 ** (attempts - 1),
+    };
+
+    if (existing) {
+      queue[queue.indexOf(existing)] = item;
+    } else {
+      queue.push(item);
+    }
+  }
+
+  await saveExportQueue(queue);
+}
+
+export async function removeQueuedExports(destination: ExportDestination, taskIds: string[]): Promise<void> {
+  const ids = new Set(taskIds.map((taskId) => queueId(destination, taskId)));
+  const queue = await getExportQueue();
+  if (queue.some((item) => ids.has(item.id))) {
+    await saveExportQueue(queue.filter((item) => !ids.has(item.id)));
+  }
+}
+
+// Remove exports that have used up their attempts and return them
+export async function removeExhaustedExports(): Promise<QueuedExport[]> {
+  const queue = await getExportQueue();
+  const exhausted = queue.filter((item) => item.attempts >= MAX_EXPORT_ATTEMPTS);
+  if (exhausted.length > 0) {
+    await saveExportQueue(queue.filter((item) => item.attempts < MAX_EXPORT_ATTEMPTS));
+  }
+  return exhausted;
+}
@@ -1,282 +1,16 @@
-import type { ExtractedTask, Settings } from '../types';
-import { PRIORITY_LABELS, CATEGORY_LABELS, CATEGORY_ICONS } from '../types';
+import type { ExtractedTask, Settings, ExportDestination, SyncRecord } from '../types';
+import { trackExport } from './storage';
+import { markInboxExported, recordInboxSync } from './inbox';
+import { getExporter, type ExportOutput, type SyncCallback } from './exporters';
+import { queueFailedExports, removeQueuedExports, type ExportReport } from './export-runner';
 
-// Format tasks as plain text
-export function formatAsPlainText(tasks: ExtractedTask[]): string {
-  return tasks
-    .filter((t) => t.selected)
-    .map((task) => {
-      let line = `${CATEGORY_ICONS[task.category]} ${task.title}`;
-      if (task.assignee) line += ` (@${task.assignee})`;
-      if (task.dueDate) line += ` [Due: ${task.dueDate}]`;
-      if (task.priority === 'high') line += ' ⚡';
-      return line;
-    })
-    .join('\n');
-}
-
-// Format tasks as markdown
-export function formatAsMarkdown(tasks: ExtractedTask[], sourceTitle: string): string {
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  let md = `# Tasks from "${sourceTitle}"\n\n`;
-  md += `_Extracted ${selectedTasks.length} task(s)_\n\n`;
-
-  // Group by priority
-  const highPriority = selectedTasks.filter((t) => t.priority === 'high');
-  const mediumPriority = selectedTasks.filter((t) => t.priority === 'medium');
-  const lowPriority = selectedTasks.filter((t) => t.priority === 'low');
-
-  if (highPriority.length > 0) {
-    md += `## 🔴 High Priority\n\n`;
-    highPriority.forEach((task) => {
-      md += formatTaskAsMarkdown(task);
-    });
-    md += '\n';
-  }
-
-  if (mediumPriority.length > 0) {
-    md += `## 🟡 Medium Priority\n\n`;
-    mediumPriority.forEach((task) => {
-      md += formatTaskAsMarkdown(task);
-    });
-    md += '\n';
-  }
-
-  if (lowPriority.length > 0) {
-    md += `## 🟢 Low Priority\n\n`;
-    lowPriority.forEach((task) => {
-      md += formatTaskAsMarkdown(task);
-    });
-  }
-
-  return md;
-}
-
-function formatTaskAsMarkdown(task: ExtractedTask): string {
-  let md = `- [ ] **${task.title}**`;
-
-  const meta: string[] = [];
-  if (task.assignee) meta.push(`👤 ${task.assignee}`);
-  if (task.dueDate) meta.push(`📅 ${task.dueDate}`);
-  if (meta.length > 0) {
-    md += ` (${meta.join(' | ')})`;
-  }
-
-  md += '\n';
-
-  if (task.description) {
-    md += `  - ${task.description}\n`;
-  }
-
-  return md;
-}
-
-// Export to Notion
-export async function exportToNotion(
-  tasks: ExtractedTask[],
-  settings: Settings,
-  sourceTitle: string
-): Promise<void> {
-  if (!settings.notionApiKey || !settings.notionDatabaseId) {
-    throw new Error('Please configure Notion API key and Database ID in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  for (const task of selectedTasks) {
-    const properties: Record<string, unknown> = {
-      Name: {
-        title: [{ text: { content: task.title } }],
-      },
-      Priority: {
-        select: { name: PRIORITY_LABELS[task.priority] },
-      },
-      Category: {
-        select: { name: CATEGORY_LABELS[task.category] },
-      },
-      Source: {
-        rich_text: [{ text: { content: sourceTitle } }],
-      },
-    };
-
-    if (task.assignee) {
-      properties['Assignee'] = {
-        rich_text: [{ text: { content: task.assignee } }],
-      };
-    }
-
-    if (task.dueDate) {
-      properties['Due Date'] = {
-        date: { start: task.dueDate },
-      };
-    }
-
-    if (task.description) {
-      properties['Description'] = {
-        rich_text: [{ text: { content: task.description } }],
-      };
-    }
-
-    await fetch('https://api.notion.com/v1/pages', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${settings.notionApiKey}`,
-        'Content-Type': 'application/json',
-        'Notion-Version': '2022-06-28',
-      },
-      body: JSON.stringify({
-        parent: { database_id: settings.notionDatabaseId },
-        properties,
-      }),
-    });
-  }
-}
-
-// Export to Todoist
-export async function exportToTodoist(
-  tasks: ExtractedTask[],
-  settings: Settings
-): Promise<void> {
-  if (!settings.todoistApiKey) {
-    throw new Error('Please configure Todoist API key in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-  const priorityMap: Record<string, number> = {
-    high: 4,
-    medium: 3,
-    low: 2,
-  };
-
-  for (const task of selectedTasks) {
-    const body: Record<string, unknown> = {
-      content: task.title,
-      priority: priorityMap[task.priority],
-    };
-
-    if (settings.todoistProjectId) {
-      body.project_id = settings.todoistProjectId;
-    }
-
-    if (task.dueDate) {
-      body.due_date = task.dueDate;
-    }
-
-    if (task.description) {
-      body.description = task.description;
-    }
-
-    await fetch('https://api.todoist.com/rest/v2/tasks', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${settings.todoistApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-  }
-}
-
-// Export to ClickUp
-export async function exportToClickUp(
-  tasks: ExtractedTask[],
-  settings: Settings
-): Promise<void> {
-  if (!settings.clickupApiKey || !settings.clickupListId) {
-    throw new Error('Please configure ClickUp API key and List ID in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-  const priorityMap: Record<string, number> = {
-    high: 1,
-    medium: 2,
-    low: 3,
-  };
-
-  for (const task of selectedTasks) {
-    const body: Record<string, unknown> = {
-      name: task.title,
-      priority: priorityMap[task.priority],
-    };
-
-    if (task.description) {
-      body.description = task.description;
-    }
-
-    if (task.dueDate) {
-      body.due_date = new Date(task.dueDate).getTime();
-    }
-
-    await fetch(`https://api.clickup.com/api/v2/list/${settings.clickupListId}/task`, {
-      method: 'POST',
-      headers: {
-        'Authorization': settings.clickupApiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-  }
-}
+export type { ExportOutput } from './exporters';
 
 // Copy to clipboard
 export async function copyToClipboard(text: string): Promise<void> {
   await navigator.clipboard.writeText(text);
 }
 
-// Format tasks as CSV
-export function formatAsCSV(tasks: ExtractedTask[], sourceTitle: string): string {
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  // CSV header
-  const headers = ['Title', 'Description', 'Priority', 'Category', 'Assignee', 'Due Date', 'Confidence', 'Source'];
-
-  // Escape CSV field
-  const escapeCSV = (field: string | undefined): string => {
-    if (!field) return '';
-    if (field.includes(',') || field.includes('"') || field.includes('\n')) {
-      return `"${field.replace(/"/g, '""')}"`;
-    }
-    return field;
-  };
-
-  const rows = selectedTasks.map((task) => [
-    escapeCSV(task.title),
-    escapeCSV(task.description),
-    task.priority,
-    CATEGORY_LABELS[task.category],
-    escapeCSV(task.assignee),
-    task.dueDate || '',
-    task.confidence ? `${Math.round(task.confidence * 100)}%` : '',
-    escapeCSV(sourceTitle),
-  ].join(','));
-
-  return [headers.join(','), ...rows].join('\n');
-}
-
-// Format tasks as JSON
-export function formatAsJSON(tasks: ExtractedTask[], sourceTitle: string): string {
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  const exportData = {
-    source: sourceTitle,
-    exportedAt: new Date().toISOString(),
-    taskCount: selectedTasks.length,
-    tasks: selectedTasks.map((task) => ({
-      title: task.title,
-      description: task.description || null,
-      priority: task.priority,
-      category: task.category,
-      categoryLabel: CATEGORY_LABELS[task.category],
-      assignee: task.assignee || null,
-      dueDate: task.dueDate || null,
-      confidence: task.confidence || null,
-    })),
-  };
-
-  return JSON.stringify(exportData, null, 2);
-}
-
 // Download file helper
 export function downloadFile(content: string, filename: string, mimeType: string): void {
   const blob = new Blob([content], { type: mimeType });
@@ -290,284 +24,141 @@ export function downloadFile(content: string, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 }
 
-// Export to Asana
-export async function exportToAsana(
-  tasks: ExtractedTask[],
-  settings: Settings
-): Promise<void> {
-  if (!settings.asanaApiKey || !settings.asanaProjectId) {
-    throw new Error('Please configure Asana API key and Project ID in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  for (const task of selectedTasks) {
-    const body: Record<string, unknown> = {
-      data: {
-        name: task.title,
-        projects: [settings.asanaProjectId],
-        notes: task.description || '',
-      },
-    };
-
-    if (task.dueDate) {
-      (body.data as Record<string, unknown>).due_on = task.dueDate;
-    }
-
-    const response = await fetch('https://app.asana.com/api/1.0/tasks', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${settings.asanaApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Asana API error: ${error}`);
-    }
-  }
-}
+const DOM_OUTPUT: ExportOutput = {
+  copy: copyToClipboard,
+  download: downloadFile,
+};
 
-// Export to Linear
-export async function exportToLinear(
+// Apply sync records from an export to the tasks they belong to
+export function withSyncRecords(
   tasks: ExtractedTask[],
-  settings: Settings
-): Promise<void> {
-  if (!settings.linearApiKey || !settings.linearTeamId) {
-    throw new Error('Please configure Linear API key and Team ID in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  // Linear priority mapping (0 = no priority, 1 = urgent, 2 = high, 3 = normal, 4 = low)
-  const priorityMap: Record<string, number> = {
-    high: 2,
-    medium: 3,
-    low: 4,
-  };
-
-  for (const task of selectedTasks) {
-    const mutation = `
-      mutation CreateIssue($input: IssueCreateInput!) {
-        issueCreate(input: $input) {
-          success
-          issue {
-            id
-            title
-          }
-        }
-      }
-    `;
-
-    const variables = {
-      input: {
-        teamId: settings.linearTeamId,
-        title: task.title,
-        description: task.description || '',
-        priority: priorityMap[task.priority],
-        ...(task.dueDate && { dueDate: task.dueDate }),
-      },
-    };
-
-    const response = await fetch('https://api.linear.app/graphql', {
-      method: 'POST',
-      headers: {
-        'Authorization': settings.linearApiKey,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query: mutation, variables }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Linear API error: ${error}`);
-    }
-
-    const result = await response.json();
-    if (result.errors) {
-      throw new Error(`Linear API error: ${result.errors[0].message}`);
-    }
-  }
+  destination: ExportDestination,
+  records: Map<string, SyncRecord>
+): ExtractedTask[] {
+  return tasks.map((task) => {
+    const record = records.get(task.id);
+    return record ? { ...task, syncRecords: { ...task.syncRecords, [destination]: record } } : task;
+  });
 }
 
-// Export to Trello
-export async function exportToTrello(
-  tasks: ExtractedTask[],
-  settings: Settings
-): Promise<void> {
-  if (!settings.trelloApiKey || !settings.trelloToken || !settings.trelloListId) {
-    throw new Error('Please configure Trello API key, token, and List ID in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  // Trello label colors based on priority
-  const priorityLabels: Record<string, string> = {
-    high: 'red',
-    medium: 'yellow',
-    low: 'green',
-  };
-
-  for (const task of selectedTasks) {
-    const params = new URLSearchParams({
-      key: settings.trelloApiKey,
-      token: settings.trelloToken,
-      idList: settings.trelloListId,
-      name: task.title,
-      desc: task.description || '',
-    });
-
-    if (task.dueDate) {
-      params.append('due', task.dueDate);
-    }
-
-    const response = await fetch(`https://api.trello.com/1/cards?${params.toString()}`, {
-      method: 'POST',
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Trello API error: ${error}`);
-    }
-
-    // Add label for priority
-    const card = await response.json();
-    if (card.id) {
-      await fetch(`https://api.trello.com/1/cards/${card.id}/labels?key=${settings.trelloApiKey}&token=${settings.trelloToken}&color=${priorityLabels[task.priority]}`, {
-        method: 'POST',
-      });
-    }
-  }
+// Optional parts of an export
+export interface ExportOptions {
+  output?: ExportOutput;
+  // Receives sync records as soon as the export finishes, even when it fails partway
+  onSynced?: (records: Map<string, SyncRecord>) => void | Promise<void>;
+  // Stored with queued retries so they can update the extraction
+  extractionId?: string;
+  // Page the tasks came from, for formats that link back to it
+  sourceUrl?: string;
 }
 
-// Export to Jira
-export async function exportToJira(
-  tasks: ExtractedTask[],
-  settings: Settings
-): Promise<void> {
-  if (!settings.jiraApiToken || !settings.jiraDomain || !settings.jiraProjectKey) {
-    throw new Error('Please configure Jira API token, domain, and project key in settings');
-  }
-
-  const selectedTasks = tasks.filter((t) => t.selected);
-
-  // Jira priority mapping (1 = Highest, 2 = High, 3 = Medium, 4 = Low, 5 = Lowest)
-  const priorityMap: Record<string, string> = {
-    high: '2',
-    medium: '3',
-    low: '4',
-  };
-
-  for (const task of selectedTasks) {
-    const body = {
-      fields: {
-        project: { key: settings.jiraProjectKey },
-        summary: task.title,
-        description: {
-          type: 'doc',
-          version: 1,
-          content: task.description ? [
-            {
-              type: 'paragraph',
-              content: [{ type: 'text', text: task.description }],
-            },
-          ] : [],
-        },
-        issuetype: { name: 'Task' },
-        priority: { id: priorityMap[task.priority] },
-        ...(task.dueDate && { duedate: task.dueDate }),
-      },
-    };
-
-    const response = await fetch(`https://${settings.jiraDomain}/rest/api/3/issue`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${btoa(`email:${settings.jiraApiToken}`)}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+// The outcome of an export, as counts of the selected tasks
+export interface ExportSummary {
+  message: string;
+  total: number;
+  exported: number;
+  queued: number;
+  failed: number;
+}
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Jira API error: ${error}`);
-    }
-  }
+// e.g. "7 of 9 exported to Notion, 2 queued for retry"
+function describePartialExport(name: string, total: number, report: ExportReport): string {
+  const queued = report.failed.filter((f) => f.retryable).length;
+  const failed = report.failed.filter((f) => !f.retryable);
+  const parts = [`${report.exported.length} of ${total} exported to ${name}`];
+  if (queued > 0) parts.push(`${queued} queued for retry`);
+  if (failed.length > 0) parts.push(`${failed.length} failed (${failed[0].error})`);
+  return parts.join(', ');
 }
 
-// Send to Slack
-export async function sendToSlack(
+/**
+ * Export the selected tasks to a destination and record it in analytics.
+ *
+ * Task manager exports go task by task: tasks that fail with a rate limit
+ * or server error are queued for the service worker to retry, and the
+ * summary reports how many went out. Tasks with a sync record for the
+ * destination update their remote item instead of creating another, so a
+ * retry never duplicates what was already sent. Throws when nothing was
+ * exported or queued.
+ */
+export async function exportTasks(
+  destination: ExportDestination,
   tasks: ExtractedTask[],
   settings: Settings,
-  sourceTitle: string
-): Promise<void> {
-  if (!settings.slackWebhookUrl) {
-    throw new Error('Please configure Slack webhook URL in settings');
+  sourceTitle: string,
+  options: ExportOptions = {}
+): Promise<ExportSummary> {
+  const exporter = getExporter(destination);
+  if (!exporter) {
+    throw new Error(`Export to ${destination} is not available yet`);
   }
+  if (exporter.pro && !settings.isPro) {
+    throw new Error(`${exporter.name} export is a Pro feature. Upgrade to unlock.`);
+  }
+  const invalid = exporter.validate(settings);
+  if (invalid) throw new Error(invalid);
 
   const selectedTasks = tasks.filter((t) => t.selected);
-
-  // Build Slack message blocks
-  const blocks = [
-    {
-      type: 'header',
-      text: {
-        type: 'plain_text',
-        text: `📋 Tasks from "${sourceTitle}"`,
-        emoji: true,
-      },
-    },
-    {
-      type: 'section',
-      text: {
-        type: 'mrkdwn',
-        text: `*${selectedTasks.length} task(s) extracted*`,
-      },
-    },
-    { type: 'divider' },
-  ];
-
-  // Group by priority
-  const priorityEmoji: Record<string, string> = {
-    high: '🔴',
-    medium: '🟡',
-    low: '🟢',
-  };
-
-  for (const task of selectedTasks) {
-    let taskText = `${priorityEmoji[task.priority]} *${task.title}*`;
-
-    const meta: string[] = [];
-    if (task.assignee) meta.push(`👤 ${task.assignee}`);
-    if (task.dueDate) meta.push(`📅 ${task.dueDate}`);
-    if (meta.length > 0) {
-      taskText += `\n${meta.join(' | ')}`;
+  const selectedIds = selectedTasks.map((t) => t.id);
+  const count = selectedIds.length;
+  const records = new Map<string, SyncRecord>();
+  const onSynced: SyncCallback = (taskId, syncRecord) => records.set(taskId, syncRecord);
+  let report: ExportReport | void;
+
+  try {
+    report = await exporter.export({
+      tasks: selectedTasks,
+      settings,
+      sourceTitle,
+      sourceUrl: options.sourceUrl,
+      output: options.output || DOM_OUTPUT,
+      onSynced,
+    });
+  } finally {
+    if (records.size > 0) {
+      await recordInboxSync(destination, records);
+      await options.onSynced?.(records);
+    }
+  }
+
+  let message = exporter.successMessage(count);
+  let exportedIds = selectedIds;
+  let queued = 0;
+  if (report) {
+    exportedIds = report.exported;
+    const retryable = report.failed.filter((f) => f.retryable);
+    queued = retryable.length;
+
+    // Failures that a retry would not fix leave the queue along with the exported tasks
+    await removeQueuedExports(destination, [
+      ...report.exported,
+      ...report.failed.filter((f) => !f.retryable).map((f) => f.taskId),
+    ]);
+    if (queued > 0) {
+      // A task can fail after its remote copy was made (e.g. adding sub-tasks);
+      // queue it with that record so the retry updates instead of duplicating
+      await queueFailedExports(destination, withSyncRecords(tasks, destination, records), retryable, {
+        sourceTitle,
+        extractionId: options.extractionId,
+      });
     }
-
-    if (task.description) {
-      taskText += `\n_${task.description}_`;
+    if (exportedIds.length === 0 && queued === 0 && report.failed.length > 0) {
+      throw new Error(report.failed[0].error);
+    }
+    if (report.failed.length > 0) {
+      message = describePartialExport(exporter.name, count, report);
     }
-
-    blocks.push({
-      type: 'section',
-      text: {
-        type: 'mrkdwn',
-        text: taskText,
-      },
-    });
   }
 
-  const response = await fetch(settings.slackWebhookUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ blocks }),
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to send to Slack. Please check your webhook URL.');
+  if (exportedIds.length > 0) {
+    await trackExport(destination);
+    await markInboxExported(exportedIds, destination);
   }
+  return {
+    message,
+    total: count,
+    exported: exportedIds.length,
+    queued,
+    failed: count - exportedIds.length - queued,
+  };
 }
@@ -0,0 +1,121 @@
+import type { Exporter, ExportRun, PickerOption } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+
+// Export to Asana
+async function exportToAsana({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+  const headers = {
+    'Authorization': `Bearer ${settings.asanaApiKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  return runPerTask(tasks, async (task) => {
+    const data: Record<string, unknown> = {
+      name: task.title,
+      notes: task.description || '',
+    };
+
+    if (task.dueDate) {
+      data.due_on = task.dueDate;
+    }
+
+    const synced = await syncTask(
+      task,
+      'asana',
+      onSynced,
+      async () => {
+        const response = await fetchWithRetry('https://app.asana.com/api/1.0/tasks', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ data: { ...data, projects: [settings.asanaProjectId] } }),
+        });
+        await ensureOk(response, 'Asana');
+        const result = await response.json();
+        return { remoteId: result.data.gid, url: result.data.permalink_url };
+      },
+      async (taskGid) => {
+        const response = await fetchWithRetry(`https://app.asana.com/api/1.0/tasks/${taskGid}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify({ data }),
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'Asana');
+        const result = await response.json();
+        return { remoteId: result.data.gid, url: result.data.permalink_url };
+      }
+    );
+
+    await syncSubTasks(task, synced, onSynced, async (subTask) => {
+      const response = await fetchWithRetry(`https://app.asana.com/api/1.0/tasks/${synced.remoteId}/subtasks`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ data: { name: subTask.title, completed: subTask.completed } }),
+      });
+      await ensureOk(response, 'Asana');
+      const result = await response.json();
+      return result.data.gid;
+    });
+  });
+}
+
+interface AsanaItem {
+  gid: string;
+  name: string;
+}
+
+// Asana wraps every response in { data }
+async function fetchAsana<T>(path: string, apiKey: string): Promise<T> {
+  const result = await fetchJson<{ data: T }>(
+    `https://app.asana.com/api/1.0/${path}`,
+    { headers: { 'Authorization': `Bearer ${apiKey}` } },
+    'Asana'
+  );
+  return result.data;
+}
+
+export const asanaExporter: Exporter = {
+  id: 'asana',
+  name: 'Asana',
+  label: 'Export to Asana',
+  icon: '🎯',
+  pro: true,
+  fields: [
+    {
+      key: 'asanaApiKey',
+      label: 'Personal Access Token',
+      type: 'password',
+      placeholder: 'Your Asana access token',
+      help: 'Create a token in',
+      helpLink: { url: 'https://app.asana.com/0/my-apps', text: 'Asana Developer Console' },
+    },
+    {
+      key: 'asanaProjectId',
+      label: 'Project ID',
+      type: 'text',
+      placeholder: 'The project where tasks will be added',
+      help: 'Test the connection to choose a project, or find the ID in the URL: app.asana.com/0/PROJECT_ID/...',
+      async loadOptions(settings) {
+        const options: PickerOption[] = [];
+        const workspaces = await fetchAsana<AsanaItem[]>('workspaces?opt_fields=name', settings.asanaApiKey);
+        for (const workspace of workspaces) {
+          const projects = await fetchAsana<AsanaItem[]>(
+            `projects?workspace=${workspace.gid}&archived=false&opt_fields=name`,
+            settings.asanaApiKey
+          );
+          projects.forEach((project) => options.push({ value: project.gid, label: `${workspace.name} / ${project.name}` }));
+        }
+        return options;
+      },
+    },
+  ],
+  validate: (settings) =>
+    !settings.asanaApiKey || !settings.asanaProjectId ? 'Please configure Asana API key and Project ID in settings' : null,
+  async testConnection(settings) {
+    if (!settings.asanaApiKey) throw new Error('Please enter your Asana access token');
+    const result = await fetchAsana<{ name: string }>('users/me?opt_fields=name', settings.asanaApiKey);
+    return `Connected as ${result.name}`;
+  },
+  export: exportToAsana,
+  successMessage: (count) => `Exported ${count} tasks to Asana!`,
+};
@@ -0,0 +1,140 @@
+import type { Exporter, ExportRun, PickerOption } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+import { describeRecurrence } from '../recurrence';
+
+// Export to ClickUp
+async function exportToClickUp({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+  const priorityMap: Record<string, number> = {
+    high: 1,
+    medium: 2,
+    low: 3,
+  };
+  const headers = {
+    'Authorization': settings.clickupApiKey,
+    'Content-Type': 'application/json',
+  };
+
+  return runPerTask(tasks, async (task) => {
+    const body: Record<string, unknown> = {
+      name: task.title,
+      priority: priorityMap[task.priority],
+    };
+
+    // ClickUp's API cannot make a task recur, so the pattern goes in the description
+    const description = [task.description, task.recurring && describeRecurrence(task.recurring)]
+      .filter(Boolean)
+      .join('\n\n');
+    if (description) {
+      body.description = description;
+    }
+
+    if (task.dueDate) {
+      body.due_date = new Date(task.dueDate).getTime();
+    }
+
+    const synced = await syncTask(
+      task,
+      'clickup',
+      onSynced,
+      async () => {
+        const response = await fetchWithRetry(`https://api.clickup.com/api/v2/list/${settings.clickupListId}/task`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+        });
+        await ensureOk(response, 'ClickUp');
+        const created = await response.json();
+        return { remoteId: created.id, url: created.url };
+      },
+      async (taskId) => {
+        const response = await fetchWithRetry(`https://api.clickup.com/api/v2/task/${taskId}`, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(body),
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'ClickUp');
+        const updated = await response.json();
+        return { remoteId: updated.id, url: updated.url };
+      }
+    );
+
+    // Status names differ between lists, so completed sub-tasks are created open
+    await syncSubTasks(task, synced, onSynced, async (subTask) => {
+      const response = await fetchWithRetry(`https://api.clickup.com/api/v2/list/${settings.clickupListId}/task`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: subTask.title, parent: synced.remoteId }),
+      });
+      await ensureOk(response, 'ClickUp');
+      const child = await response.json();
+      return child.id;
+    });
+  });
+}
+
+interface ClickUpItem {
+  id: string;
+  name: string;
+}
+
+function fetchClickUp<T>(path: string, apiKey: string): Promise<T> {
+  return fetchJson<T>(`https://api.clickup.com/api/v2/${path}`, { headers: { 'Authorization': apiKey } }, 'ClickUp');
+}
+
+export const clickupExporter: Exporter = {
+  id: 'clickup',
+  name: 'ClickUp',
+  label: 'Export to ClickUp',
+  icon: '📋',
+  pro: true,
+  fields: [
+    {
+      key: 'clickupApiKey',
+      label: 'API Token',
+      type: 'password',
+      placeholder: 'pk_...',
+      help: 'Get your token from',
+      helpLink: { url: 'https://app.clickup.com/settings/apps', text: 'ClickUp Settings → Apps' },
+    },
+    {
+      key: 'clickupListId',
+      label: 'List ID',
+      type: 'text',
+      placeholder: 'The list where tasks will be added',
+      help: 'Test the connection to choose a list',
+      // Lists live in spaces, directly or inside folders, across every workspace
+      async loadOptions(settings) {
+        const apiKey = settings.clickupApiKey;
+        const options: PickerOption[] = [];
+        const { teams } = await fetchClickUp<{ teams: ClickUpItem[] }>('team', apiKey);
+        for (const team of teams) {
+          const { spaces } = await fetchClickUp<{ spaces: ClickUpItem[] }>(`team/${team.id}/space`, apiKey);
+          for (const space of spaces) {
+            const [{ folders }, { lists }] = await Promise.all([
+              fetchClickUp<{ folders: Array<ClickUpItem & { lists: ClickUpItem[] }> }>(`space/${space.id}/folder`, apiKey),
+              fetchClickUp<{ lists: ClickUpItem[] }>(`space/${space.id}/list`, apiKey),
+            ]);
+            lists.forEach((list) => options.push({ value: list.id, label: `${team.name} / ${space.name} / ${list.name}` }));
+            folders.forEach((folder) =>
+              folder.lists.forEach((list) =>
+                options.push({ value: list.id, label: `${team.name} / ${space.name} / ${folder.name} / ${list.name}` })
+              )
+            );
+          }
+        }
+        return options;
+      },
+    },
+  ],
+  validate: (settings) =>
+    !settings.clickupApiKey || !settings.clickupListId ? 'Please configure ClickUp API key and List ID in settings' : null,
+  async testConnection(settings) {
+    if (!settings.clickupApiKey) throw new Error('Please enter your ClickUp API token');
+    const result = await fetchClickUp<{ user: { username: string } }>('user', settings.clickupApiKey);
+    return `Connected as ${result.user.username}`;
+  },
+  export: exportToClickUp,
+  successMessage: (count) => `Exported ${count} tasks to ClickUp!`,
+};
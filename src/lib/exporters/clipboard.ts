@@ -0,0 +1,34 @@
+import type { ExtractedTask } from '../../types';
+import { CATEGORY_ICONS } from '../../types';
+import type { Exporter } from './types';
+
+// Format tasks as plain text
+export function formatAsPlainText(tasks: ExtractedTask[]): string {
+  return tasks
+    .filter((t) => t.selected)
+    .map((task) => {
+      let line = `${CATEGORY_ICONS[task.category]} ${task.title}`;
+      if (task.assignee) line += ` (@${task.assignee})`;
+      if (task.dueDate) line += ` [Due: ${task.dueDate}]`;
+      if (task.priority === 'high') line += ' ⚡';
+      task.subTasks?.forEach((subTask) => {
+        line += `\n    ${subTask.completed ? '☑' : '☐'} ${subTask.title}`;
+      });
+      return line;
+    })
+    .join('\n');
+}
+
+export const clipboardExporter: Exporter = {
+  id: 'clipboard',
+  name: 'Clipboard',
+  label: 'Copy to Clipboard',
+  icon: '📋',
+  pro: false,
+  fields: [],
+  validate: () => null,
+  async export({ tasks, output }) {
+    await output.copy(formatAsPlainText(tasks));
+  },
+  successMessage: () => 'Copied to clipboard!',
+};
@@ -0,0 +1,69 @@
+import type { ExtractedTask } from '../../types';
+import { CATEGORY_LABELS } from '../../types';
+import type { Exporter } from './types';
+import { toRRule } from '../recurrence';
+
+// Format tasks as CSV
+export function formatAsCSV(tasks: ExtractedTask[], sourceTitle: string): string {
+  const selectedTasks = tasks.filter((t) => t.selected);
+
+  // CSV header. Sub-tasks get their own rows that point at their task's ID.
+  const headers = ['Title', 'Description', 'Priority', 'Category', 'Assignee', 'Due Date', 'Confidence', 'Source', 'ID', 'Parent ID', 'Completed', 'Recurrence'];
+
+  // Escape CSV field
+  const escapeCSV = (field: string | undefined): string => {
+    if (!field) return '';
+    if (field.includes(',') || field.includes('"') || field.includes('\n')) {
+      return `"${field.replace(/"/g, '""')}"`;
+    }
+    return field;
+  };
+
+  const rows = selectedTasks.flatMap((task) => [
+    [
+      escapeCSV(task.title),
+      escapeCSV(task.description),
+      task.priority,
+      CATEGORY_LABELS[task.category],
+      escapeCSV(task.assignee),
+      task.dueDate || '',
+      task.confidence ? `${Math.round(task.confidence * 100)}%` : '',
+      escapeCSV(sourceTitle),
+      task.id,
+      '',
+      '',
+      task.recurring ? toRRule(task.recurring) : '',
+    ].join(','),
+    ...(task.subTasks || []).map((subTask) => [
+      escapeCSV(subTask.title),
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      escapeCSV(sourceTitle),
+      subTask.id,
+      task.id,
+      subTask.completed ? 'Yes' : 'No',
+      '',
+    ].join(',')),
+  ]);
+
+  return [headers.join(','), ...rows].join('\n');
+}
+
+export const csvExporter: Exporter = {
+  id: 'csv',
+  name: 'CSV',
+  label: 'Download CSV',
+  icon: '📊',
+  pro: true,
+  fields: [],
+  validate: () => null,
+  async export({ tasks, sourceTitle, output }) {
+    const date = new Date().toISOString().split('T')[0];
+    await output.download(formatAsCSV(tasks, sourceTitle), `tasks-${date}.csv`, 'text/csv');
+  },
+  successMessage: () => 'CSV downloaded!',
+};
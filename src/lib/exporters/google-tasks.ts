@@ -0,0 +1,158 @@
+import type { ExtractedTask, SubTask } from '../../types';
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, syncSubTasks, syncTask } from './sync';
+import { describeRecurrence } from '../recurrence';
+
+const TASKS_API = 'https://tasks.googleapis.com/tasks/v1';
+const DEFAULT_LIST = '@default';
+
+interface GoogleTask {
+  id: string;
+  webViewLink?: string;
+}
+
+interface GoogleTaskList {
+  id: string;
+  title: string;
+}
+
+// Access tokens come from the Google account signed in to Chrome. The
+// consent prompt only appears the first time, or after access is revoked.
+async function getAuthToken(): Promise<string> {
+  try {
+    const { token } = await chrome.identity.getAuthToken({ interactive: false });
+    if (token) return token;
+  } catch {
+    // Not granted yet; ask below
+  }
+  const { token } = await chrome.identity.getAuthToken({ interactive: true });
+  if (!token) throw new Error('Google sign-in was cancelled');
+  return token;
+}
+
+// Call the Tasks API. A token Google rejects is dropped from Chrome's cache
+// and the request is sent once more with a fresh one.
+async function fetchGoogle(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string) =>
+    fetchWithRetry(`${TASKS_API}/${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+  const token = await getAuthToken();
+  const response = await send(token);
+  if (response.status !== 401) return response;
+
+  await chrome.identity.removeCachedAuthToken({ token });
+  return send(await getAuthToken());
+}
+
+async function fetchTaskLists(): Promise<GoogleTaskList[]> {
+  const response = await fetchGoogle('users/@me/lists?maxResults=100');
+  await ensureOk(response, 'Google Tasks');
+  const data = await response.json();
+  return data.items || [];
+}
+
+// Google Tasks stores only the date part of `due`. Repeating tasks can be
+// set up in the Google Tasks apps but not through the API, so the pattern
+// goes in the notes.
+function googleTaskBody(task: ExtractedTask) {
+  const notes = [task.description, task.recurring && describeRecurrence(task.recurring)]
+    .filter(Boolean)
+    .join('\n\n');
+  return {
+    title: task.title,
+    notes: notes || undefined,
+    due: task.dueDate ? `${task.dueDate}T00:00:00.000Z` : undefined,
+  };
+}
+
+// Sub-tasks become child tasks. Each one is placed after the previous so
+// they keep their order; without `previous` Google puts new children first.
+async function createSubTask(listId: string, parentId: string, subTask: SubTask, previousId?: string): Promise<string> {
+  const params = new URLSearchParams({ parent: parentId });
+  if (previousId) params.set('previous', previousId);
+
+  const response = await fetchGoogle(`lists/${listId}/tasks?${params}`, {
+    method: 'POST',
+    body: JSON.stringify({
+      title: subTask.title,
+      status: subTask.completed ? 'completed' : 'needsAction',
+    }),
+  });
+  await ensureOk(response, 'Google Tasks');
+  const child: GoogleTask = await response.json();
+  return child.id;
+}
+
+// Export to Google Tasks
+async function exportToGoogleTasks({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+  const listId = settings.googleTasksListId || DEFAULT_LIST;
+
+  return runPerTask(tasks, async (task) => {
+    const body = googleTaskBody(task);
+
+    const synced = await syncTask(
+      task,
+      'google-tasks',
+      onSynced,
+      async () => {
+        const response = await fetchGoogle(`lists/${listId}/tasks`, {
+          method: 'POST',
+          body: JSON.stringify(body),
+        });
+        await ensureOk(response, 'Google Tasks');
+        const item: GoogleTask = await response.json();
+        return { remoteId: item.id, url: item.webViewLink };
+      },
+      async (taskId) => {
+        const response = await fetchGoogle(`lists/${listId}/tasks/${taskId}`, {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'Google Tasks');
+        const updated: GoogleTask = await response.json();
+        return { remoteId: updated.id, url: updated.webViewLink };
+      }
+    );
+
+    await syncSubTasks(task, synced, onSynced, (subTask, previousId) =>
+      createSubTask(listId, synced.remoteId, subTask, previousId)
+    );
+  });
+}
+
+export const googleTasksExporter: Exporter = {
+  id: 'google-tasks',
+  name: 'Google Tasks',
+  label: 'Export to Google Tasks',
+  icon: '☑️',
+  pro: false,
+  fields: [
+    {
+      key: 'googleTasksListId',
+      label: 'Task List (Optional)',
+      type: 'text',
+      placeholder: 'Leave empty for your default list',
+      help: 'Test the connection to sign in with the Google account in Chrome and choose a list',
+      async loadOptions() {
+        const lists = await fetchTaskLists();
+        return lists.map((list) => ({ value: list.id, label: list.title }));
+      },
+    },
+  ],
+  // Sign-in happens on the first export, so there is nothing to check up front
+  validate: () => null,
+  async testConnection() {
+    const lists = await fetchTaskLists();
+    return `Connected; ${lists.length} task list${lists.length !== 1 ? 's' : ''} available`;
+  },
+  export: exportToGoogleTasks,
+  successMessage: (count) => `Exported ${count} tasks to Google Tasks!`,
+};
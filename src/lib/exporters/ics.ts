@@ -0,0 +1,169 @@
+import type { ExtractedTask, IcsComponent, TaskPriority } from '../../types';
+import { CATEGORY_LABELS } from '../../types';
+import type { Exporter } from './types';
+import type { ExportReport } from '../export-runner';
+import { toRRule } from '../recurrence';
+
+// RFC 5545 priorities: 1 is highest, 9 lowest
+const ICS_PRIORITIES: Record<TaskPriority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+// Lines longer than 75 octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// Escape a TEXT value
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Fold by octets without splitting a multi-byte character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// "2026-10-20" as an iCalendar DATE
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Current time as a UTC DATE-TIME, e.g. 20261019T120000Z
+function timestamp(): string {
+  return new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function taskUid(id: string): string {
+  return `${id}@ai-task-extractor`;
+}
+
+function describe(task: ExtractedTask, component: IcsComponent): string {
+  const lines = task.description ? [task.description] : [];
+  if (task.assignee) lines.push(`Assignee: ${task.assignee}`);
+  // Events have no children, so sub-tasks are listed instead
+  if (component === 'VEVENT') {
+    task.subTasks?.forEach((subTask) => lines.push(`${subTask.completed ? '☑' : '☐'} ${subTask.title}`));
+  }
+  return lines.join('\n');
+}
+
+function taskComponent(
+  task: ExtractedTask,
+  component: IcsComponent,
+  stamp: string,
+  sourceUrl?: string
+): string[] {
+  const description = describe(task, component);
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${taskUid(task.id)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    `PRIORITY:${ICS_PRIORITIES[task.priority]}`,
+    `CATEGORIES:${escapeText(CATEGORY_LABELS[task.category])}`,
+    ...(sourceUrl ? [`URL:${sourceUrl}`] : []),
+  ];
+
+  if (task.dueDate) {
+    const date = toIcsDate(task.dueDate);
+    if (component === 'VEVENT') {
+      lines.push(`DTSTART;VALUE=DATE:${date}`, `DTEND;VALUE=DATE:${toIcsDate(nextDay(task.dueDate))}`);
+    } else {
+      // A repeating to-do needs DTSTART for its RRULE; both fall on the due date
+      lines.push(`DTSTART;VALUE=DATE:${date}`, `DUE;VALUE=DATE:${date}`);
+    }
+    if (task.recurring) lines.push(`RRULE:${toRRule(task.recurring)}`);
+  }
+
+  if (component === 'VTODO') lines.push('STATUS:NEEDS-ACTION');
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+// Sub-tasks as to-dos that name their parent
+function subTaskComponents(task: ExtractedTask, stamp: string): string[] {
+  return (task.subTasks || []).flatMap((subTask) => [
+    'BEGIN:VTODO',
+    `UID:${taskUid(subTask.id)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(subTask.title)}`,
+    `RELATED-TO;RELTYPE=PARENT:${taskUid(task.id)}`,
+    `STATUS:${subTask.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+    'END:VTODO',
+  ]);
+}
+
+// Format tasks as an iCalendar file
+export function formatAsICS(tasks: ExtractedTask[], component: IcsComponent, sourceUrl?: string): string {
+  const stamp = timestamp();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Startvest//AI Task Extractor//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...tasks.flatMap((task) => [
+      ...taskComponent(task, component, stamp, sourceUrl),
+      ...(component === 'VTODO' ? subTaskComponents(task, stamp) : []),
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export const icsExporter: Exporter = {
+  id: 'ics',
+  name: 'Calendar',
+  label: 'Download .ics',
+  icon: '📅',
+  pro: true,
+  fields: [],
+  validate: () => null,
+  // Events need a date, so undated tasks are reported as not exported
+  async export({ tasks, settings, sourceUrl, output }): Promise<ExportReport> {
+    const component = settings.icsComponent;
+    const included = component === 'VEVENT' ? tasks.filter((task) => task.dueDate) : tasks;
+    const report: ExportReport = {
+      exported: included.map((task) => task.id),
+      failed: tasks
+        .filter((task) => !included.includes(task))
+        .map((task) => ({ taskId: task.id, error: 'No due date for a calendar event', retryable: false })),
+    };
+    if (included.length > 0) {
+      const date = new Date().toISOString().split('T')[0];
+      await output.download(formatAsICS(included, component, sourceUrl), `tasks-${date}.ics`, 'text/calendar');
+    }
+    return report;
+  },
+  successMessage: () => 'Calendar file downloaded!',
+};
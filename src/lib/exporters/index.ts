@@ -0,0 +1,59 @@
+// Registry of export destinations. The popup menu, the settings page and
+// analytics are built from this list, so a new destination is one module
+// here plus its id in ExportDestination.
+
+import type { ExportDestination } from '../../types';
+import type { Exporter } from './types';
+import { clipboardExporter } from './clipboard';
+import { markdownExporter } from './markdown';
+import { csvExporter } from './csv';
+import { jsonExporter } from './json';
+import { icsExporter } from './ics';
+import { notionExporter } from './notion';
+import { todoistExporter } from './todoist';
+import { clickupExporter } from './clickup';
+import { asanaExporter } from './asana';
+import { linearExporter } from './linear';
+import { trelloExporter } from './trello';
+import { googleTasksExporter } from './google-tasks';
+import { jiraExporter } from './jira';
+import { slackExporter } from './slack';
+
+export type { Exporter, ExporterField, ExporterSettingKey, ExportOutput, ExportRun, PickerOption } from './types';
+export type { SyncCallback } from './sync';
+
+// In menu order
+export const EXPORTERS: Exporter[] = [
+  clipboardExporter,
+  markdownExporter,
+  csvExporter,
+  jsonExporter,
+  icsExporter,
+  notionExporter,
+  todoistExporter,
+  clickupExporter,
+  asanaExporter,
+  linearExporter,
+  trelloExporter,
+  googleTasksExporter,
+  jiraExporter,
+  slackExporter,
+];
+
+export function getExporter(id: ExportDestination): Exporter | undefined {
+  return EXPORTERS.find((exporter) => exporter.id === id);
+}
+
+// Short name for messages and history; ids without an exporter fall back to the id
+export function exporterName(id: ExportDestination): string {
+  return getExporter(id)?.name || id;
+}
+
+export function exporterLabel(id: ExportDestination): string {
+  return getExporter(id)?.label || id;
+}
+
+// Exporters with settings, shown on the Integrations tab
+export function getIntegrations(): Exporter[] {
+  return EXPORTERS.filter((exporter) => exporter.fields.length > 0);
+}
@@ -0,0 +1,290 @@
+import type { ExtractedTask, Settings, TimeEstimate } from '../../types';
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+
+interface JiraIssueType {
+  id: string;
+  name: string;
+  subtask: boolean;
+}
+
+// Project settings that shape every issue in an export
+interface ProjectDetails {
+  subTaskType?: JiraIssueType;
+  timeTrackingEnabled: boolean;
+}
+
+interface JiraUser {
+  accountId: string;
+  displayName: string;
+}
+
+// Jira priority mapping (1 = Highest, 2 = High, 3 = Medium, 4 = Low, 5 = Lowest)
+const PRIORITY_IDS: Record<string, string> = {
+  high: '2',
+  medium: '3',
+  low: '4',
+};
+
+// Jira's duration format; days and weeks follow the site's working hours
+const JIRA_ESTIMATES: Record<TimeEstimate, string> = {
+  '15min': '15m',
+  '30min': '30m',
+  '1h': '1h',
+  '2h': '2h',
+  '4h': '4h',
+  '1d': '1d',
+  '2d': '2d',
+  '1w': '1w',
+};
+
+// Jira Cloud API tokens authenticate together with the account's email
+function jiraHeaders(settings: Settings) {
+  return {
+    'Authorization': `Basic ${btoa(`${settings.jiraEmail}:${settings.jiraApiToken}`)}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+function jiraUrl(settings: Settings, path: string): string {
+  return `https://${settings.jiraDomain}/rest/api/3/${path}`;
+}
+
+function browseUrl(settings: Settings, issueKey: string): string {
+  return `https://${settings.jiraDomain}/browse/${issueKey}`;
+}
+
+function fetchJira<T>(path: string, settings: Settings): Promise<T> {
+  return fetchJson<T>(jiraUrl(settings, path), { headers: jiraHeaders(settings) }, 'Jira');
+}
+
+async function fetchIssueTypes(settings: Settings): Promise<JiraIssueType[]> {
+  const project = await fetchJira<{ issueTypes: JiraIssueType[] }>(
+    `project/${encodeURIComponent(settings.jiraProjectKey)}`,
+    settings
+  );
+  return project.issueTypes;
+}
+
+// Atlassian Document Format for the description
+function toDocument(task: ExtractedTask) {
+  return {
+    type: 'doc',
+    version: 1,
+    content: task.description ? [
+      {
+        type: 'paragraph',
+        content: [{ type: 'text', text: task.description }],
+      },
+    ] : [],
+  };
+}
+
+// Export to Jira
+async function exportToJira({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+  const headers = jiraHeaders(settings);
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetchWithRetry(jiraUrl(settings, path), { ...init, headers });
+
+  const getJson = async <T>(path: string): Promise<T> => {
+    const response = await request(path);
+    await ensureOk(response, 'Jira');
+    return response.json();
+  };
+
+  // Details looked up once per export, by the first task that needs them.
+  // A rate limit or outage here fails that task, which is queued for retry,
+  // and the next task tries again.
+  let projectDetails: Promise<ProjectDetails> | null = null;
+  const getProjectDetails = (): Promise<ProjectDetails> => {
+    if (!projectDetails) {
+      projectDetails = Promise.all([
+        getJson<{ issueTypes: JiraIssueType[] }>(`project/${encodeURIComponent(settings.jiraProjectKey)}`),
+        getJson<{ timeTrackingEnabled: boolean }>('configuration'),
+      ]).then(([project, configuration]) => ({
+        subTaskType: project.issueTypes.find((type) => type.subtask),
+        timeTrackingEnabled: configuration.timeTrackingEnabled,
+      }));
+      projectDetails.catch(() => {
+        projectDetails = null;
+      });
+    }
+    return projectDetails;
+  };
+
+  const accountIds = new Map<string, string | null>();
+  const findAccountId = async (name: string): Promise<string | null> => {
+    const key = name.toLowerCase();
+    if (!accountIds.has(key)) {
+      const params = new URLSearchParams({ project: settings.jiraProjectKey, query: name });
+      const response = await request(`user/assignable/search?${params}`);
+      await ensureOk(response, 'Jira');
+      const users: JiraUser[] = await response.json();
+      accountIds.set(key, users[0]?.accountId || null);
+    }
+    return accountIds.get(key) ?? null;
+  };
+
+  // Move a sub-task to the first status in the "done" category
+  const completeIssue = async (issueKey: string) => {
+    const response = await request(`issue/${issueKey}/transitions`);
+    await ensureOk(response, 'Jira');
+    const { transitions } = await response.json() as {
+      transitions: Array<{ id: string; to: { statusCategory: { key: string } } }>;
+    };
+    const done = transitions.find((transition) => transition.to.statusCategory.key === 'done');
+    if (!done) return;
+    const transitioned = await request(`issue/${issueKey}/transitions`, {
+      method: 'POST',
+      body: JSON.stringify({ transition: { id: done.id } }),
+    });
+    await ensureOk(transitioned, 'Jira');
+  };
+
+  return runPerTask(tasks, async (task) => {
+    const { subTaskType, timeTrackingEnabled } = await getProjectDetails();
+    // Assignees the project does not know are left unassigned
+    const accountId = task.assignee ? await findAccountId(task.assignee) : null;
+    const fields = {
+      summary: task.title,
+      description: toDocument(task),
+      priority: { id: PRIORITY_IDS[task.priority] },
+      ...(task.dueDate && { duedate: task.dueDate }),
+      ...(accountId && { assignee: { accountId } }),
+      ...(timeTrackingEnabled && task.timeEstimate && {
+        timetracking: { originalEstimate: JIRA_ESTIMATES[task.timeEstimate] },
+      }),
+    };
+
+    const synced = await syncTask(
+      task,
+      'jira',
+      onSynced,
+      async () => {
+        const response = await request('issue', {
+          method: 'POST',
+          body: JSON.stringify({
+            fields: {
+              ...fields,
+              labels: [task.category],
+              project: { key: settings.jiraProjectKey },
+              issuetype: settings.jiraIssueTypeId ? { id: settings.jiraIssueTypeId } : { name: 'Task' },
+            },
+          }),
+        });
+        await ensureOk(response, 'Jira');
+        const issue = await response.json();
+        return { remoteId: issue.key, url: browseUrl(settings, issue.key) };
+      },
+      // Jira answers an edit with 204 and no body; the issue key is unchanged.
+      // The category label is added so labels set in Jira are kept.
+      async (issueKey) => {
+        const response = await request(`issue/${issueKey}`, {
+          method: 'PUT',
+          body: JSON.stringify({ fields, update: { labels: [{ add: task.category }] } }),
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'Jira');
+        return { remoteId: issueKey, url: browseUrl(settings, issueKey) };
+      }
+    );
+
+    // Projects without a sub-task issue type get no sub-tasks
+    if (subTaskType) {
+      await syncSubTasks(
+        task,
+        synced,
+        onSynced,
+        async (subTask) => {
+          const response = await request('issue', {
+            method: 'POST',
+            body: JSON.stringify({
+              fields: {
+                project: { key: settings.jiraProjectKey },
+                parent: { key: synced.remoteId },
+                issuetype: { id: subTaskType.id },
+                summary: subTask.title,
+              },
+            }),
+          });
+          await ensureOk(response, 'Jira');
+          const issue = await response.json();
+          return issue.key;
+        },
+        completeIssue
+      );
+    }
+  });
+}
+
+export const jiraExporter: Exporter = {
+  id: 'jira',
+  name: 'Jira',
+  label: 'Export to Jira',
+  icon: '🔷',
+  pro: true,
+  fields: [
+    {
+      key: 'jiraDomain',
+      label: 'Domain',
+      type: 'text',
+      placeholder: 'your-company.atlassian.net',
+    },
+    {
+      key: 'jiraEmail',
+      label: 'Email',
+      type: 'text',
+      placeholder: 'you@company.com',
+      help: 'The email address of the Atlassian account that owns the API token',
+    },
+    {
+      key: 'jiraApiToken',
+      label: 'API Token',
+      type: 'password',
+      placeholder: 'Your Jira API token',
+      help: 'Create a token at',
+      helpLink: { url: 'https://id.atlassian.com/manage-profile/security/api-tokens', text: 'Atlassian API Tokens' },
+    },
+    {
+      key: 'jiraProjectKey',
+      label: 'Project Key',
+      type: 'text',
+      placeholder: 'e.g., PROJ',
+      help: 'Test the connection to choose a project, or enter its key (e.g., PROJ from PROJ-123)',
+      async loadOptions(settings) {
+        const result = await fetchJira<{ values: Array<{ key: string; name: string }> }>('project/search?maxResults=100', settings);
+        return result.values.map((project) => ({ value: project.key, label: `${project.name} (${project.key})` }));
+      },
+    },
+    {
+      key: 'jiraIssueTypeId',
+      label: 'Issue Type (Optional)',
+      type: 'text',
+      placeholder: 'Leave empty for Task',
+      help: 'Sub-tasks use the project\'s sub-task issue type',
+      dependsOn: 'jiraProjectKey',
+      async loadOptions(settings) {
+        if (!settings.jiraProjectKey) return [];
+        const issueTypes = await fetchIssueTypes(settings);
+        return issueTypes
+          .filter((type) => !type.subtask)
+          .map((type) => ({ value: type.id, label: type.name }));
+      },
+    },
+  ],
+  validate: (settings) =>
+    !settings.jiraEmail || !settings.jiraApiToken || !settings.jiraDomain || !settings.jiraProjectKey
+      ? 'Please configure Jira email, API token, domain, and project key in settings'
+      : null,
+  async testConnection(settings) {
+    if (!settings.jiraDomain || !settings.jiraEmail || !settings.jiraApiToken) {
+      throw new Error('Please enter your Jira domain, email and API token');
+    }
+    const user = await fetchJira<{ displayName: string }>('myself', settings);
+    return `Connected as ${user.displayName}`;
+  },
+  export: exportToJira,
+  successMessage: (count) => `Exported ${count} tasks to Jira!`,
+};
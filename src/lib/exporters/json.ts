@@ -0,0 +1,53 @@
+import type { ExtractedTask } from '../../types';
+import { CATEGORY_LABELS } from '../../types';
+import type { Exporter } from './types';
+import { toRRule } from '../recurrence';
+
+// Format tasks as JSON
+export function formatAsJSON(tasks: ExtractedTask[], sourceTitle: string): string {
+  const selectedTasks = tasks.filter((t) => t.selected);
+
+  const exportData = {
+    source: sourceTitle,
+    exportedAt: new Date().toISOString(),
+    taskCount: selectedTasks.length,
+    tasks: selectedTasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      description: task.description || null,
+      priority: task.priority,
+      category: task.category,
+      categoryLabel: CATEGORY_LABELS[task.category],
+      assignee: task.assignee || null,
+      dueDate: task.dueDate || null,
+      confidence: task.confidence || null,
+      commitment: task.commitment || null,
+      recurrence: task.recurring
+        ? { rrule: toRRule(task.recurring), description: task.recurring.description }
+        : null,
+      subTasks: (task.subTasks || []).map((subTask) => ({
+        id: subTask.id,
+        parentId: task.id,
+        title: subTask.title,
+        completed: subTask.completed,
+      })),
+    })),
+  };
+
+  return JSON.stringify(exportData, null, 2);
+}
+
+export const jsonExporter: Exporter = {
+  id: 'json',
+  name: 'JSON',
+  label: 'Download JSON',
+  icon: '🧾',
+  pro: true,
+  fields: [],
+  validate: () => null,
+  async export({ tasks, sourceTitle, output }) {
+    const date = new Date().toISOString().split('T')[0];
+    await output.download(formatAsJSON(tasks, sourceTitle), `tasks-${date}.json`, 'application/json');
+  },
+  successMessage: () => 'JSON downloaded!',
+};
@@ -0,0 +1,174 @@
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+
+// Export to Linear
+async function exportToLinear({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+
+  // Linear priority mapping (0 = no priority, 1 = urgent, 2 = high, 3 = normal, 4 = low)
+  const priorityMap: Record<string, number> = {
+    high: 2,
+    medium: 3,
+    low: 4,
+  };
+
+  const createMutation = `
+    mutation CreateIssue($input: IssueCreateInput!) {
+      issueCreate(input: $input) {
+        success
+        issue {
+          id
+          url
+        }
+      }
+    }
+  `;
+
+  const updateMutation = `
+    mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+      issueUpdate(id: $id, input: $input) {
+        success
+        issue {
+          id
+          url
+        }
+      }
+    }
+  `;
+
+  // Linear reports failures, including unknown issues, as GraphQL errors
+  const runMutation = async (query: string, variables: Record<string, unknown>) => {
+    const response = await fetchWithRetry('https://api.linear.app/graphql', {
+      method: 'POST',
+      headers: {
+        'Authorization': settings.linearApiKey!,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+    await ensureOk(response, 'Linear');
+    return response.json();
+  };
+
+  const createIssue = async (input: Record<string, unknown>) => {
+    const result = await runMutation(createMutation, {
+      input: { ...input, teamId: settings.linearTeamId },
+    });
+    if (result.errors) {
+      throw new Error(`Linear API error: ${result.errors[0].message}`);
+    }
+    return result.data.issueCreate.issue as { id: string; url: string };
+  };
+
+  // The team's first "completed" workflow state, looked up when a finished sub-task needs it
+  let completedStateId: Promise<string | undefined> | undefined;
+  const getCompletedStateId = () => {
+    if (!completedStateId) {
+      completedStateId = runMutation(
+        `query TeamStates($id: String!) {
+          team(id: $id) {
+            states(filter: { type: { eq: "completed" } }) { nodes { id } }
+          }
+        }`,
+        { id: settings.linearTeamId }
+      ).then((result) => result.data?.team?.states.nodes[0]?.id);
+    }
+    return completedStateId;
+  };
+
+  return runPerTask(tasks, async (task) => {
+    const input = {
+      title: task.title,
+      description: task.description || '',
+      priority: priorityMap[task.priority],
+      ...(task.dueDate && { dueDate: task.dueDate }),
+    };
+
+    const synced = await syncTask(
+      task,
+      'linear',
+      onSynced,
+      async () => {
+        const issue = await createIssue(input);
+        return { remoteId: issue.id, url: issue.url };
+      },
+      async (issueId) => {
+        const result = await runMutation(updateMutation, { id: issueId, input });
+        if (result.errors) {
+          if (/not found/i.test(result.errors[0].message)) return null;
+          throw new Error(`Linear API error: ${result.errors[0].message}`);
+        }
+        const issue = result.data.issueUpdate.issue;
+        return { remoteId: issue.id, url: issue.url };
+      }
+    );
+
+    // Sub-tasks become sub-issues
+    await syncSubTasks(task, synced, onSynced, async (subTask) => {
+      const stateId = subTask.completed ? await getCompletedStateId() : undefined;
+      const issue = await createIssue({
+        title: subTask.title,
+        parentId: synced.remoteId,
+        ...(stateId && { stateId }),
+      });
+      return issue.id;
+    });
+  });
+}
+
+async function queryLinear<T>(query: string, apiKey: string): Promise<T> {
+  const result = await fetchJson<{ data?: T; errors?: Array<{ message: string }> }>(
+    'https://api.linear.app/graphql',
+    {
+      method: 'POST',
+      headers: { 'Authorization': apiKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query }),
+    },
+    'Linear'
+  );
+  if (result.errors || !result.data) {
+    throw new Error(`Linear API error: ${result.errors?.[0].message || 'Unknown error'}`);
+  }
+  return result.data;
+}
+
+export const linearExporter: Exporter = {
+  id: 'linear',
+  name: 'Linear',
+  label: 'Export to Linear',
+  icon: '⚡',
+  pro: true,
+  fields: [
+    {
+      key: 'linearApiKey',
+      label: 'API Key',
+      type: 'password',
+      placeholder: 'lin_api_...',
+      help: 'Create an API key in',
+      helpLink: { url: 'https://linear.app/settings/api', text: 'Linear Settings → API' },
+    },
+    {
+      key: 'linearTeamId',
+      label: 'Team ID',
+      type: 'text',
+      placeholder: 'The team where issues will be created',
+      help: 'Test the connection to choose a team, or find its ID in Linear → Settings → Team → General',
+      async loadOptions(settings) {
+        const data = await queryLinear<{ teams: { nodes: Array<{ id: string; name: string; key: string }> } }>(
+          'query { teams { nodes { id name key } } }',
+          settings.linearApiKey
+        );
+        return data.teams.nodes.map((team) => ({ value: team.id, label: `${team.name} (${team.key})` }));
+      },
+    },
+  ],
+  validate: (settings) =>
+    !settings.linearApiKey || !settings.linearTeamId ? 'Please configure Linear API key and Team ID in settings' : null,
+  async testConnection(settings) {
+    if (!settings.linearApiKey) throw new Error('Please enter your Linear API key');
+    const data = await queryLinear<{ viewer: { name: string } }>('query { viewer { name } }', settings.linearApiKey);
+    return `Connected as ${data.viewer.name}`;
+  },
+  export: exportToLinear,
+  successMessage: (count) => `Exported ${count} tasks to Linear!`,
+};
@@ -0,0 +1,83 @@
+import type { ExtractedTask } from '../../types';
+import type { Exporter } from './types';
+
+// Format tasks as markdown
+export function formatAsMarkdown(tasks: ExtractedTask[], sourceTitle: string): string {
+  const selectedTasks = tasks.filter((t) => t.selected);
+
+  let md = `# Tasks from "${sourceTitle}"\n\n`;
+  md += `_Extracted ${selectedTasks.length} task(s)_\n\n`;
+
+  // Group by priority
+  const highPriority = selectedTasks.filter((t) => t.priority === 'high');
+  const mediumPriority = selectedTasks.filter((t) => t.priority === 'medium');
+  const lowPriority = selectedTasks.filter((t) => t.priority === 'low');
+
+  if (highPriority.length > 0) {
+    md += `## 🔴 High Priority\n\n`;
+    highPriority.forEach((task) => {
+      md += formatTaskAsMarkdown(task);
+    });
+    md += '\n';
+  }
+
+  if (mediumPriority.length > 0) {
+    md += `## 🟡 Medium Priority\n\n`;
+    mediumPriority.forEach((task) => {
+      md += formatTaskAsMarkdown(task);
+    });
+    md += '\n';
+  }
+
+  if (lowPriority.length > 0) {
+    md += `## 🟢 Low Priority\n\n`;
+    lowPriority.forEach((task) => {
+      md += formatTaskAsMarkdown(task);
+    });
+  }
+
+  return md;
+}
+
+function formatTaskAsMarkdown(task: ExtractedTask): string {
+  let md = `- [ ] **${task.title}**`;
+
+  const meta: string[] = [];
+  if (task.assignee) meta.push(`👤 ${task.assignee}`);
+  if (task.dueDate) meta.push(`📅 ${task.dueDate}`);
+  if (meta.length > 0) {
+    md += ` (${meta.join(' | ')})`;
+  }
+
+  md += '\n';
+
+  if (task.description) {
+    md += `  - ${task.description}\n`;
+  }
+
+  if (task.commitment) {
+    const { speaker, timestamp, quote, url } = task.commitment;
+    const at = timestamp ? ` at ${url ? `[${timestamp}](${url})` : timestamp}` : '';
+    md += `  - 🎙 ${speaker}${at}${quote ? `: “${quote}”` : ''}\n`;
+  }
+
+  task.subTasks?.forEach((subTask) => {
+    md += `  - [${subTask.completed ? 'x' : ' '}] ${subTask.title}\n`;
+  });
+
+  return md;
+}
+
+export const markdownExporter: Exporter = {
+  id: 'markdown',
+  name: 'Markdown',
+  label: 'Copy as Markdown',
+  icon: '📝',
+  pro: false,
+  fields: [],
+  validate: () => null,
+  async export({ tasks, sourceTitle, output }) {
+    await output.copy(formatAsMarkdown(tasks, sourceTitle));
+  },
+  successMessage: () => 'Markdown copied to clipboard!',
+};
@@ -0,0 +1,160 @@
+import { PRIORITY_LABELS, CATEGORY_LABELS } from '../../types';
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+
+const NOTION_VERSION = '2022-06-28';
+
+function notionHeaders(apiKey: string): Record<string, string> {
+  return { 'Authorization': `Bearer ${apiKey}`, 'Notion-Version': NOTION_VERSION };
+}
+
+// Export to Notion
+async function exportToNotion({ tasks, settings, sourceTitle, onSynced }: ExportRun): Promise<ExportReport> {
+  const headers = { ...notionHeaders(settings.notionApiKey), 'Content-Type': 'application/json' };
+
+  return runPerTask(tasks, async (task) => {
+    const properties: Record<string, unknown> = {
+      Name: {
+        title: [{ text: { content: task.title } }],
+      },
+      Priority: {
+        select: { name: PRIORITY_LABELS[task.priority] },
+      },
+      Category: {
+        select: { name: CATEGORY_LABELS[task.category] },
+      },
+      Source: {
+        rich_text: [{ text: { content: sourceTitle } }],
+      },
+    };
+
+    if (task.assignee) {
+      properties['Assignee'] = {
+        rich_text: [{ text: { content: task.assignee } }],
+      };
+    }
+
+    if (task.dueDate) {
+      properties['Due Date'] = {
+        date: { start: task.dueDate },
+      };
+    }
+
+    if (task.description) {
+      properties['Description'] = {
+        rich_text: [{ text: { content: task.description } }],
+      };
+    }
+
+    const synced = await syncTask(
+      task,
+      'notion',
+      onSynced,
+      async () => {
+        const response = await fetchWithRetry('https://api.notion.com/v1/pages', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            parent: { database_id: settings.notionDatabaseId },
+            properties,
+          }),
+        });
+        await ensureOk(response, 'Notion');
+        const page = await response.json();
+        return { remoteId: page.id, url: page.url };
+      },
+      async (pageId) => {
+        const response = await fetchWithRetry(`https://api.notion.com/v1/pages/${pageId}`, {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify({ properties }),
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'Notion');
+        const page = await response.json();
+        return { remoteId: page.id, url: page.url };
+      }
+    );
+
+    // Sub-tasks become to-do blocks in the page body, each placed after the
+    // one before it. Blocks already written are left alone, so edits made in
+    // Notion are not overwritten.
+    await syncSubTasks(task, synced, onSynced, async (subTask, previousId) => {
+      const response = await fetchWithRetry(`https://api.notion.com/v1/blocks/${synced.remoteId}/children`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({
+          children: [
+            {
+              object: 'block',
+              type: 'to_do',
+              to_do: {
+                rich_text: [{ type: 'text', text: { content: subTask.title } }],
+                checked: subTask.completed,
+              },
+            },
+          ],
+          ...(previousId && { after: previousId }),
+        }),
+      });
+      await ensureOk(response, 'Notion');
+      const result = await response.json();
+      return result.results[0].id;
+    });
+  });
+}
+
+export const notionExporter: Exporter = {
+  id: 'notion',
+  name: 'Notion',
+  label: 'Export to Notion',
+  icon: '📓',
+  pro: true,
+  fields: [
+    {
+      key: 'notionApiKey',
+      label: 'Integration Token',
+      type: 'password',
+      placeholder: 'secret_...',
+      help: 'Create an integration at',
+      helpLink: { url: 'https://www.notion.so/my-integrations', text: 'Notion Integrations' },
+    },
+    {
+      key: 'notionDatabaseId',
+      label: 'Database ID',
+      type: 'text',
+      placeholder: 'abc123...',
+      help: 'Test the connection to choose a database shared with your integration',
+      // Only databases shared with the integration are listed
+      async loadOptions(settings) {
+        const result = await fetchJson<{ results: Array<{ id: string; title: Array<{ plain_text: string }> }> }>(
+          'https://api.notion.com/v1/search',
+          {
+            method: 'POST',
+            headers: { ...notionHeaders(settings.notionApiKey), 'Content-Type': 'application/json' },
+            body: JSON.stringify({ filter: { property: 'object', value: 'database' }, page_size: 100 }),
+          },
+          'Notion'
+        );
+        return result.results.map((database) => ({
+          value: database.id,
+          label: database.title.map((t) => t.plain_text).join('') || 'Untitled',
+        }));
+      },
+    },
+  ],
+  validate: (settings) =>
+    !settings.notionApiKey || !settings.notionDatabaseId ? 'Please configure Notion API key and Database ID in settings' : null,
+  async testConnection(settings) {
+    if (!settings.notionApiKey) throw new Error('Please enter your Notion integration token');
+    const bot = await fetchJson<{ name?: string }>(
+      'https://api.notion.com/v1/users/me',
+      { headers: notionHeaders(settings.notionApiKey) },
+      'Notion'
+    );
+    return `Connected as ${bot.name || 'your integration'}`;
+  },
+  export: exportToNotion,
+  successMessage: (count) => `Exported ${count} tasks to Notion!`,
+};
@@ -0,0 +1,106 @@
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry } from '../export-runner';
+
+// Send to Slack. Incoming webhooks return no message id, so there is no
+// sync record and sending again posts a new message.
+async function sendToSlack({ tasks, settings, sourceTitle }: ExportRun): Promise<void> {
+  // Build Slack message blocks
+  const blocks = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `📋 Tasks from "${sourceTitle}"`,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `*${tasks.length} task(s) extracted*`,
+      },
+    },
+    { type: 'divider' },
+  ];
+
+  // Group by priority
+  const priorityEmoji: Record<string, string> = {
+    high: '🔴',
+    medium: '🟡',
+    low: '🟢',
+  };
+
+  for (const task of tasks) {
+    let taskText = `${priorityEmoji[task.priority]} *${task.title}*`;
+
+    const meta: string[] = [];
+    if (task.assignee) meta.push(`👤 ${task.assignee}`);
+    if (task.dueDate) meta.push(`📅 ${task.dueDate}`);
+    if (meta.length > 0) {
+      taskText += `\n${meta.join(' | ')}`;
+    }
+
+    if (task.description) {
+      taskText += `\n_${task.description}_`;
+    }
+
+    task.subTasks?.forEach((subTask) => {
+      taskText += `\n${subTask.completed ? '☑' : '☐'} ${subTask.title}`;
+    });
+
+    blocks.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: taskText,
+      },
+    });
+  }
+
+  const response = await fetchWithRetry(settings.slackWebhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ blocks }),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to send to Slack. Please check your webhook URL.');
+  }
+}
+
+export const slackExporter: Exporter = {
+  id: 'slack',
+  name: 'Slack',
+  label: 'Send to Slack',
+  icon: '💬',
+  pro: true,
+  fields: [
+    {
+      key: 'slackWebhookUrl',
+      label: 'Webhook URL',
+      type: 'password',
+      placeholder: 'https://hooks.slack.com/services/...',
+      help: 'Create an incoming webhook at',
+      helpLink: { url: 'https://api.slack.com/apps', text: 'Slack Apps' },
+    },
+  ],
+  validate: (settings) =>
+    !settings.slackWebhookUrl ? 'Please configure Slack webhook URL in settings' : null,
+  // A webhook can only post, so the test sends a message to the channel
+  async testConnection(settings) {
+    const response = await fetch(settings.slackWebhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: 'AI Task Extractor is connected to this channel.' }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to send to Slack. Please check your webhook URL.');
+    }
+    return 'Sent a test message to the channel';
+  },
+  export: sendToSlack,
+  successMessage: (count) => `Sent ${count} tasks to Slack!`,
+};
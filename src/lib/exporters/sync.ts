@@ -0,0 +1,84 @@
+// Helpers shared by the task manager exporters
+
+import type { ExportDestination, ExtractedTask, SubTask, SyncRecord } from '../../types';
+import { ExportRequestError, isRetryableStatus } from '../export-runner';
+
+// Called with the remote record of each task as soon as it is created or updated
+export type SyncCallback = (taskId: string, record: SyncRecord) => void;
+
+// What an API returned for a created or updated item
+export type RemoteItem = Omit<SyncRecord, 'syncedAt' | 'subTasks'>;
+
+// The outcome of syncing one task, with the record that was saved for it
+export interface SyncResult {
+  remoteId: string;
+  record: SyncRecord;
+}
+
+// Throw the API's error text for a failed request
+export async function ensureOk(response: Response, service: string): Promise<void> {
+  if (!response.ok) {
+    const error = await response.text();
+    throw new ExportRequestError(`${service} API error: ${error}`, isRetryableStatus(response.status));
+  }
+}
+
+/**
+ * Update the remote copy of a task that was exported to this destination
+ * before, otherwise create it. `update` returns null when the remote item
+ * no longer exists, in which case a new one is created.
+ */
+export async function syncTask(
+  task: ExtractedTask,
+  destination: ExportDestination,
+  onSynced: SyncCallback,
+  create: () => Promise<RemoteItem>,
+  update: (remoteId: string) => Promise<RemoteItem | null>
+): Promise<SyncResult> {
+  const previous = task.syncRecords?.[destination];
+  const updated = previous ? await update(previous.remoteId) : null;
+  const item = updated || (await create());
+  const record: SyncRecord = {
+    url: previous?.url,
+    // A recreated item has none of the old item's children
+    ...(updated && previous?.subTasks && { subTasks: previous.subTasks }),
+    ...item,
+    syncedAt: Date.now(),
+  };
+  onSynced(task.id, record);
+  return { remoteId: item.remoteId, record };
+}
+
+/**
+ * Create the sub-tasks of a synced task that its record does not list yet,
+ * recording each one as soon as it exists. A retry after a failed sub-task,
+ * or a re-export after sub-tasks were added, creates only the missing ones;
+ * existing children are left as they are. `create` returns the child's
+ * remote id and gets the id of the child before it, for APIs that order
+ * children. `complete` finishes a completed sub-task after it is recorded.
+ */
+export async function syncSubTasks(
+  task: ExtractedTask,
+  synced: SyncResult,
+  onSynced: SyncCallback,
+  create: (subTask: SubTask, previousId?: string) => Promise<string>,
+  complete?: (remoteId: string) => Promise<void>
+): Promise<void> {
+  const subTasks = { ...synced.record.subTasks };
+  let previousId: string | undefined;
+  for (const subTask of task.subTasks || []) {
+    if (!subTasks[subTask.id]) {
+      subTasks[subTask.id] = await create(subTask, previousId);
+      onSynced(task.id, { ...synced.record, subTasks: { ...subTasks } });
+      if (subTask.completed && complete) await complete(subTasks[subTask.id]);
+    }
+    previousId = subTasks[subTask.id];
+  }
+}
+
+// Check a connection-test request and return its JSON body
+export async function fetchJson<T>(url: string, init: RequestInit, service: string): Promise<T> {
+  const response = await fetch(url, init);
+  await ensureOk(response, service);
+  return response.json();
+}
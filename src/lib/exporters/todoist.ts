@@ -0,0 +1,135 @@
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+import { toTodoistDueString } from '../recurrence';
+
+// Export to Todoist
+async function exportToTodoist({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+  const priorityMap: Record<string, number> = {
+    high: 4,
+    medium: 3,
+    low: 2,
+  };
+  const headers = {
+    'Authorization': `Bearer ${settings.todoistApiKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  return runPerTask(tasks, async (task) => {
+    const body: Record<string, unknown> = {
+      content: task.title,
+      priority: priorityMap[task.priority],
+    };
+
+    // A repeating task's due date is its first occurrence
+    if (task.recurring) {
+      body.due_string = toTodoistDueString(task.recurring, task.dueDate);
+    } else if (task.dueDate) {
+      body.due_date = task.dueDate;
+    }
+
+    if (task.description) {
+      body.description = task.description;
+    }
+
+    const synced = await syncTask(
+      task,
+      'todoist',
+      onSynced,
+      async () => {
+        const response = await fetchWithRetry('https://api.todoist.com/rest/v2/tasks', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            ...body,
+            ...(settings.todoistProjectId && { project_id: settings.todoistProjectId }),
+          }),
+        });
+        await ensureOk(response, 'Todoist');
+        const created = await response.json();
+        return { remoteId: created.id, url: created.url };
+      },
+      // Updates cannot move a task between projects, so the project is left as is
+      async (taskId) => {
+        const response = await fetchWithRetry(`https://api.todoist.com/rest/v2/tasks/${taskId}`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'Todoist');
+        const updated = await response.json();
+        return { remoteId: updated.id, url: updated.url };
+      }
+    );
+
+    await syncSubTasks(
+      task,
+      synced,
+      onSynced,
+      async (subTask) => {
+        const response = await fetchWithRetry('https://api.todoist.com/rest/v2/tasks', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ content: subTask.title, parent_id: synced.remoteId }),
+        });
+        await ensureOk(response, 'Todoist');
+        const child = await response.json();
+        return child.id;
+      },
+      async (childId) => {
+        const closed = await fetchWithRetry(`https://api.todoist.com/rest/v2/tasks/${childId}/close`, {
+          method: 'POST',
+          headers,
+        });
+        await ensureOk(closed, 'Todoist');
+      }
+    );
+  });
+}
+
+function fetchTodoistProjects(apiKey: string) {
+  return fetchJson<Array<{ id: string; name: string }>>(
+    'https://api.todoist.com/rest/v2/projects',
+    { headers: { 'Authorization': `Bearer ${apiKey}` } },
+    'Todoist'
+  );
+}
+
+export const todoistExporter: Exporter = {
+  id: 'todoist',
+  name: 'Todoist',
+  label: 'Export to Todoist',
+  icon: '✅',
+  pro: true,
+  fields: [
+    {
+      key: 'todoistApiKey',
+      label: 'API Token',
+      type: 'password',
+      placeholder: 'Your Todoist API token',
+      help: 'Find your token in',
+      helpLink: { url: 'https://todoist.com/app/settings/integrations/developer', text: 'Todoist Settings → Integrations' },
+    },
+    {
+      key: 'todoistProjectId',
+      label: 'Project ID (Optional)',
+      type: 'text',
+      placeholder: 'Leave empty for Inbox',
+      help: 'Tasks go to your Inbox when no project is chosen',
+      async loadOptions(settings) {
+        const projects = await fetchTodoistProjects(settings.todoistApiKey);
+        return projects.map((project) => ({ value: project.id, label: project.name }));
+      },
+    },
+  ],
+  validate: (settings) =>
+    !settings.todoistApiKey ? 'Please configure Todoist API key in settings' : null,
+  async testConnection(settings) {
+    if (!settings.todoistApiKey) throw new Error('Please enter your Todoist API token');
+    const projects = await fetchTodoistProjects(settings.todoistApiKey);
+    return `Connected; ${projects.length} project${projects.length !== 1 ? 's' : ''} available`;
+  },
+  export: exportToTodoist,
+  successMessage: (count) => `Exported ${count} tasks to Todoist!`,
+};
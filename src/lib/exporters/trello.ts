@@ -0,0 +1,161 @@
+import type { Settings } from '../../types';
+import type { Exporter, ExportRun } from './types';
+import { fetchWithRetry, runPerTask, type ExportReport } from '../export-runner';
+import { ensureOk, fetchJson, syncSubTasks, syncTask } from './sync';
+
+// Name of the checklist that holds a card's sub-tasks
+const SUB_TASK_CHECKLIST = 'Sub-tasks';
+
+// Export to Trello
+async function exportToTrello({ tasks, settings, onSynced }: ExportRun): Promise<ExportReport> {
+
+  // Trello label colors based on priority
+  const priorityLabels: Record<string, string> = {
+    high: 'red',
+    medium: 'yellow',
+    low: 'green',
+  };
+
+  return runPerTask(tasks, async (task) => {
+    const params = new URLSearchParams({
+      key: settings.trelloApiKey,
+      token: settings.trelloToken,
+      name: task.title,
+      desc: task.description || '',
+    });
+
+    if (task.dueDate) {
+      params.append('due', task.dueDate);
+    }
+
+    const synced = await syncTask(
+      task,
+      'trello',
+      onSynced,
+      async () => {
+        params.append('idList', settings.trelloListId!);
+        const response = await fetchWithRetry(`https://api.trello.com/1/cards?${params.toString()}`, {
+          method: 'POST',
+        });
+        await ensureOk(response, 'Trello');
+
+        // Add label for priority
+        const card = await response.json();
+        if (card.id) {
+          await fetchWithRetry(`https://api.trello.com/1/cards/${card.id}/labels?key=${settings.trelloApiKey}&token=${settings.trelloToken}&color=${priorityLabels[task.priority]}`, {
+            method: 'POST',
+          });
+        }
+        return { remoteId: card.id, url: card.shortUrl };
+      },
+      // The card keeps its list and labels; it may have been moved on the board since
+      async (cardId) => {
+        const response = await fetchWithRetry(`https://api.trello.com/1/cards/${cardId}?${params.toString()}`, {
+          method: 'PUT',
+        });
+        if (response.status === 404) return null;
+        await ensureOk(response, 'Trello');
+        const card = await response.json();
+        return { remoteId: card.id, url: card.shortUrl };
+      }
+    );
+
+    // Sub-tasks become items of a "Sub-tasks" checklist on the card. The
+    // checklist is found, or added, when an item is missing.
+    const auth = new URLSearchParams({ key: settings.trelloApiKey, token: settings.trelloToken });
+    let checklistId: string | undefined;
+    const getChecklistId = async (): Promise<string> => {
+      const response = await fetchWithRetry(`https://api.trello.com/1/cards/${synced.remoteId}/checklists?${auth}`);
+      await ensureOk(response, 'Trello');
+      const checklists: Array<{ id: string; name: string }> = await response.json();
+      const existing = checklists.find((checklist) => checklist.name === SUB_TASK_CHECKLIST);
+      if (existing) return existing.id;
+
+      const created = await fetchWithRetry(`https://api.trello.com/1/cards/${synced.remoteId}/checklists?${auth}&name=${SUB_TASK_CHECKLIST}`, {
+        method: 'POST',
+      });
+      await ensureOk(created, 'Trello');
+      const checklist = await created.json();
+      return checklist.id;
+    };
+
+    await syncSubTasks(task, synced, onSynced, async (subTask) => {
+      checklistId = checklistId || (await getChecklistId());
+      const itemParams = new URLSearchParams(auth);
+      itemParams.set('name', subTask.title);
+      itemParams.set('checked', String(subTask.completed));
+      const response = await fetchWithRetry(`https://api.trello.com/1/checklists/${checklistId}/checkItems?${itemParams}`, {
+        method: 'POST',
+      });
+      await ensureOk(response, 'Trello');
+      const item = await response.json();
+      return item.id;
+    });
+  });
+}
+
+interface TrelloItem {
+  id: string;
+  name: string;
+}
+
+function fetchTrello<T>(path: string, settings: Settings): Promise<T> {
+  const params = new URLSearchParams({ key: settings.trelloApiKey, token: settings.trelloToken });
+  return fetchJson<T>(`https://api.trello.com/1/${path}?${params.toString()}`, {}, 'Trello');
+}
+
+export const trelloExporter: Exporter = {
+  id: 'trello',
+  name: 'Trello',
+  label: 'Export to Trello',
+  icon: '📝',
+  pro: true,
+  fields: [
+    {
+      key: 'trelloApiKey',
+      label: 'API Key',
+      type: 'password',
+      placeholder: 'Your Trello API key',
+      help: 'Get your API key from',
+      helpLink: { url: 'https://trello.com/power-ups/admin', text: 'Trello Power-Up Admin' },
+    },
+    {
+      key: 'trelloToken',
+      label: 'Token',
+      type: 'password',
+      placeholder: 'Your Trello token',
+    },
+    {
+      key: 'trelloBoardId',
+      label: 'Board ID',
+      type: 'text',
+      placeholder: 'The board that holds the list',
+      async loadOptions(settings) {
+        const boards = await fetchTrello<TrelloItem[]>('members/me/boards?filter=open', settings);
+        return boards.map((board) => ({ value: board.id, label: board.name }));
+      },
+    },
+    {
+      key: 'trelloListId',
+      label: 'List ID',
+      type: 'text',
+      placeholder: 'The list where cards will be created',
+      help: 'Test the connection to choose a board and list',
+      async loadOptions(settings) {
+        if (!settings.trelloBoardId) return [];
+        const lists = await fetchTrello<TrelloItem[]>(`boards/${settings.trelloBoardId}/lists`, settings);
+        return lists.map((list) => ({ value: list.id, label: list.name }));
+      },
+      dependsOn: 'trelloBoardId',
+    },
+  ],
+  validate: (settings) =>
+    !settings.trelloApiKey || !settings.trelloToken || !settings.trelloListId ? 'Please configure Trello API key, token, and List ID in settings' : null,
+  async testConnection(settings) {
+    if (!settings.trelloApiKey || !settings.trelloToken) throw new Error('Please enter your Trello API key and token');
+    const member = await fetchTrello<{ fullName: string }>('members/me', settings);
+    return `Connected as ${member.fullName}`;
+  },
+  export: exportToTrello,
+  successMessage: (count) => `Exported ${count} tasks to Trello!`,
+};
@@ -0,0 +1,62 @@
+import type { ExportDestination, ExtractedTask, Settings } from '../../types';
+import type { ExportReport } from '../export-runner';
+import type { SyncCallback } from './sync';
+
+// Settings keys an integration form can edit as text
+export type ExporterSettingKey = {
+  [K in keyof Settings]: Settings[K] extends string ? K : never;
+}[keyof Settings];
+
+// A choice in a destination picker; value is what gets stored in settings
+export interface PickerOption {
+  value: string;
+  label: string;
+}
+
+// One input on an integration's settings card
+export interface ExporterField {
+  key: ExporterSettingKey;
+  label: string;
+  type: 'text' | 'password';
+  placeholder?: string;
+  help?: string;
+  helpLink?: { url: string; text: string };
+  // Fetch the choices for a dropdown once the credentials work
+  loadOptions?: (settings: Settings) => Promise<PickerOption[]>;
+  // Another field whose value these options depend on, e.g. a board for its lists
+  dependsOn?: ExporterSettingKey;
+}
+
+// How copy and download exports reach the user. Pages use the DOM helpers;
+// the service worker has no DOM and supplies its own.
+export interface ExportOutput {
+  copy: (text: string) => Promise<void>;
+  download: (content: string, filename: string, mimeType: string) => void | Promise<void>;
+}
+
+// Everything an exporter gets for one export. Only selected tasks are passed.
+export interface ExportRun {
+  tasks: ExtractedTask[];
+  settings: Settings;
+  sourceTitle: string;
+  sourceUrl?: string;
+  output: ExportOutput;
+  onSynced: SyncCallback;
+}
+
+export interface Exporter {
+  id: ExportDestination;
+  name: string; // Short name for messages and history, e.g. "Notion"
+  label: string; // Action label, e.g. "Export to Notion"
+  icon: string;
+  pro: boolean;
+  // Settings the user fills in on the Integrations tab; empty for local formats
+  fields: ExporterField[];
+  // A user-facing error when the settings are incomplete, or null when ready
+  validate: (settings: Settings) => string | null;
+  // Check the credentials alone and return a confirmation; throws when they do not work
+  testConnection?: (settings: Settings) => Promise<string>;
+  // Task manager exporters report per task; local formats and Slack return nothing
+  export: (run: ExportRun) => Promise<ExportReport | void>;
+  successMessage: (count: number) => string;
+}
@@ -0,0 +1,264 @@
+import type { ExtractionMode } from '../types';
+import { parseTranscript, formatTranscript } from './transcript';
+
+// Local file parsing for "Extract from file". Every format is turned into
+// plain text in the browser, keeping headings and speaker turns, before it
+// goes through the usual extraction job. Nothing is uploaded.
+
+export interface ParsedFile {
+  content: string;
+  title: string;
+  sourceUrl: string; // Files have no URL; a file: URL keeps their history entries apart
+  suggestedMode?: ExtractionMode; // Transcript for caption files
+}
+
+// For the file input's accept attribute
+export const SUPPORTED_FILE_TYPES = '.pdf,.txt,.md,.markdown,.docx,.vtt,.srt';
+
+// Larger files are almost always scans or slide decks with little text
+export const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// Copied next to the bundles by the build (see vite.config.ts)
+const PDF_WORKER_PATH = 'pdf.worker.min.mjs';
+
+// A line this much taller than the body text is treated as a heading
+const PDF_HEADING_RATIO = 1.25;
+
+function fileExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Read a picked or dropped file as text for extraction. Throws with a
+ * message for the user when the format is unsupported or has no text.
+ */
+export async function parseFile(file: File): Promise<ParsedFile> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+
+  let content: string;
+  let suggestedMode: ExtractionMode | undefined;
+  switch (fileExtension(file.name)) {
+    case 'txt':
+    case 'md':
+    case 'markdown':
+      content = normalizeNewlines(await file.text());
+      break;
+    case 'vtt':
+    case 'srt': {
+      // One "[hh:mm:ss] Speaker: words" paragraph per speaker turn
+      const text = await file.text();
+      const turns = parseTranscript(text);
+      content = turns.length > 0 ? formatTranscript(turns) : normalizeNewlines(text);
+      suggestedMode = 'transcript';
+      break;
+    }
+    case 'docx':
+      content = await parseDocx(await file.arrayBuffer());
+      break;
+    case 'pdf':
+      content = await parsePdf(await file.arrayBuffer());
+      break;
+    default:
+      throw new Error(`Unsupported file type. Choose a ${SUPPORTED_FILE_TYPES.split(',').join(', ')} file.`);
+  }
+
+  content = content.trim();
+  if (!content) {
+    throw new Error(`No text found in ${file.name}.`);
+  }
+  return {
+    content,
+    title: file.name.replace(/\.[^.]+$/, ''),
+    sourceUrl: `file:///${encodeURIComponent(file.name)}`,
+    suggestedMode,
+  };
+}
+
+// --- Word documents ---
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Read one entry of a ZIP archive using the central directory
+async function readZipEntry(data: ArrayBuffer, name: string): Promise<string | null> {
+  const view = new DataView(data);
+
+  // The end of central directory record is within the last 64 KB + 22 bytes
+  let end = -1;
+  for (let i = data.byteLength - 22; i >= Math.max(0, data.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('This .docx file is damaged or not a Word document.');
+
+  const entries = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entries; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+
+    if (entryName === name) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const bytes = new Uint8Array(data, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(bytes);
+      if (method !== 8) throw new Error('This .docx file uses an unsupported compression method.');
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+function paragraphText(paragraph: Element): string {
+  let text = '';
+  for (const node of Array.from(paragraph.getElementsByTagNameNS(WORD_NS, '*'))) {
+    if (node.localName === 't') text += node.textContent || '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  }
+  return text.trim();
+}
+
+// Headings become Markdown headings and list items bullets
+function formatParagraph(paragraph: Element): string {
+  const text = paragraphText(paragraph);
+  if (!text) return '';
+
+  const properties = Array.from(paragraph.children).find((child) => child.localName === 'pPr');
+  const style = properties
+    ? Array.from(properties.children).find((child) => child.localName === 'pStyle')?.getAttributeNS(WORD_NS, 'val') || ''
+    : '';
+  const heading = style.match(/^Heading(\d)$/i);
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1]), 6))} ${text}`;
+  if (/^Title$/i.test(style)) return `# ${text}`;
+  if (properties && Array.from(properties.children).some((child) => child.localName === 'numPr')) return `• ${text}`;
+  return text;
+}
+
+async function parseDocx(data: ArrayBuffer): Promise<string> {
+  const xml = await readZipEntry(data, 'word/document.xml');
+  if (!xml) throw new Error('This .docx file has no document body.');
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (!body) throw new Error('This .docx file is damaged or not a Word document.');
+
+  const blocks: string[] = [];
+  for (const child of Array.from(body.children)) {
+    if (child.localName === 'p') {
+      blocks.push(formatParagraph(child));
+    } else if (child.localName === 'tbl') {
+      // One line per table row, cells separated by pipes
+      for (const row of Array.from(child.getElementsByTagNameNS(WORD_NS, 'tr'))) {
+        const cells = Array.from(row.getElementsByTagNameNS(WORD_NS, 'tc')).map((cell) =>
+          Array.from(cell.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraphText).filter(Boolean).join(' ')
+        );
+        blocks.push(cells.join(' | '));
+      }
+    }
+  }
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+// --- PDFs ---
+
+/**
+ * Extract a PDF's text layer page by page. pdf.js is loaded on first use,
+ * so the popup does not pay for it otherwise. Lines set noticeably larger
+ * than the body text are marked as headings.
+ */
+async function parsePdf(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL(PDF_WORKER_PATH);
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const pages: Array<Array<{ text: string; height: number }>> = [];
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      const lines: Array<{ text: string; height: number }> = [];
+      let current = { text: '', height: 0 };
+      for (const item of items) {
+        if (!('str' in item)) continue;
+        current.text += item.str;
+        current.height = Math.max(current.height, item.height);
+        if (item.hasEOL) {
+          lines.push(current);
+          current = { text: '', height: 0 };
+        }
+      }
+      lines.push(current);
+      pages.push(lines.filter((line) => line.text.trim()));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  // The most common line height is the body text
+  const counts = new Map<number, number>();
+  pages.flat().forEach(({ height }) => {
+    const rounded = Math.round(height);
+    counts.set(rounded, (counts.get(rounded) || 0) + 1);
+  });
+  const bodyHeight = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+
+  const text = pages
+    .map((lines) =>
+      lines
+        .map(({ text, height }) => {
+          const line = text.replace(/\s+/g, ' ').trim();
+          return bodyHeight > 0 && height >= bodyHeight * PDF_HEADING_RATIO && line.length <= 120 ? `## ${line}` : line;
+        })
+        .join('\n')
+    )
+    .join('\n\n');
+
+  if (!text.trim()) {
+    throw new Error('This PDF has no text layer. Scanned PDFs need OCR before tasks can be extracted.');
+  }
+  return text;
+}
+
+// Chrome's PDF viewer keeps the document's own URL
+export function isPdfUrl(url: string): boolean {
+  try {
+    return /\.pdf$/i.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch and parse the PDF open in a tab. Content scripts do not run in
+ * Chrome's PDF viewer, so the popup reads the file itself.
+ */
+export async function fetchPdfText(url: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, { credentials: 'include' });
+  } catch {
+    throw new Error('Could not open this PDF. Download it and use "Extract from file" instead.');
+  }
+  if (!response.ok) {
+    throw new Error(`Could not open this PDF (HTTP ${response.status}). Download it and use "Extract from file" instead.`);
+  }
+  return parsePdf(await response.arrayBuffer());
+}
@@ -0,0 +1,182 @@
+import type { ExportDestination, ExtractionResult, InboxFilter, InboxItem, InboxStatus, SyncRecord } from '../types';
+import { formatDate } from './dates';
+
+// Tasks from every extraction accumulate here. IndexedDB rather than
+// chrome.storage because the inbox grows without a fixed cap.
+const DB_NAME = 'ate_inbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'tasks';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('status', 'status');
+      store.createIndex('extractionId', 'extractionId');
+      store.createIndex('addedAt', 'addedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run work against the task store and resolve once the transaction commits
+async function runTransaction(mode: IDBTransactionMode, work: (store: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error || new Error('Inbox transaction aborted'));
+    };
+    work(tx.objectStore(STORE_NAME));
+  });
+}
+
+async function getAllItems(): Promise<InboxItem[]> {
+  let items: InboxItem[] = [];
+  await runTransaction('readonly', (store) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      items = request.result;
+    };
+  });
+  return items;
+}
+
+async function putItems(items: InboxItem[]): Promise<void> {
+  if (items.length === 0) return;
+  await runTransaction('readwrite', (store) => {
+    items.forEach((item) => store.put(item));
+  });
+}
+
+// Add the tasks of an extraction to the inbox as open. Likely duplicates
+// are left out; the inbox already holds the earlier task.
+export async function addExtractionToInbox(extraction: ExtractionResult): Promise<void> {
+  const now = Date.now();
+  await putItems(
+    extraction.tasks.filter((task) => !task.duplicateOf).map((task) => ({
+      ...task,
+      status: 'open' as InboxStatus,
+      extractionId: extraction.id,
+      sourceUrl: extraction.sourceUrl,
+      sourceTitle: extraction.sourceTitle,
+      addedAt: now,
+      updatedAt: now,
+    }))
+  );
+}
+
+/**
+ * All inbox items, newest first. Snoozed items whose snooze has run out are
+ * reopened on read.
+ */
+export async function getInboxItems(): Promise<InboxItem[]> {
+  const now = Date.now();
+  const items = await getAllItems();
+
+  const woken = items
+    .filter((item) => item.status === 'snoozed' && item.snoozedUntil && item.snoozedUntil <= now)
+    .map((item) => ({ ...item, status: 'open' as InboxStatus, snoozedUntil: undefined, updatedAt: now }));
+  await putItems(woken);
+
+  const wokenById = new Map(woken.map((item) => [item.id, item]));
+  return items
+    .map((item) => wokenById.get(item.id) || item)
+    .sort((a, b) => b.addedAt - a.addedAt);
+}
+
+export async function updateInboxItems(ids: string[], changes: Partial<InboxItem>): Promise<void> {
+  const idSet = new Set(ids);
+  const now = Date.now();
+  const items = (await getAllItems()).filter((item) => idSet.has(item.id));
+  await putItems(items.map((item) => ({ ...item, ...changes, updatedAt: now })));
+}
+
+export async function snoozeInboxItems(ids: string[], until: number): Promise<void> {
+  await updateInboxItems(ids, { status: 'snoozed', snoozedUntil: until });
+}
+
+// Record an export for tasks that are in the inbox; other ids are ignored.
+// Finished tasks stay done; open and snoozed ones move to Exported.
+export async function markInboxExported(ids: string[], destination: ExportDestination): Promise<void> {
+  const idSet = new Set(ids);
+  const now = Date.now();
+  const items = (await getAllItems()).filter((item) => idSet.has(item.id));
+  await putItems(
+    items.map((item) =>
+      item.status === 'done'
+        ? { ...item, exportedTo: destination, updatedAt: now }
+        : { ...item, status: 'exported', exportedTo: destination, snoozedUntil: undefined, updatedAt: now }
+    )
+  );
+}
+
+// Keep the remote ids of exported tasks so exporting them again from the inbox updates them
+export async function recordInboxSync(destination: ExportDestination, records: Map<string, SyncRecord>): Promise<void> {
+  const now = Date.now();
+  const items = (await getAllItems()).filter((item) => records.has(item.id));
+  await putItems(
+    items.map((item) => ({
+      ...item,
+      syncRecords: { ...item.syncRecords, [destination]: records.get(item.id)! },
+      updatedAt: now,
+    }))
+  );
+}
+
+export async function deleteInboxItems(ids: string[]): Promise<void> {
+  await runTransaction('readwrite', (store) => {
+    ids.forEach((id) => store.delete(id));
+  });
+}
+
+export async function clearInbox(): Promise<void> {
+  await runTransaction('readwrite', (store) => {
+    store.clear();
+  });
+}
+
+// Filtering
+
+export function filterInboxItems(items: InboxItem[], filter: InboxFilter): InboxItem[] {
+  // Local calendar dates, the same form resolved due dates take
+  const now = new Date();
+  const today = formatDate(now);
+  const weekEnd = formatDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7));
+
+  return items.filter((item) => {
+    if (filter.status && filter.status !== 'all' && item.status !== filter.status) return false;
+    if (filter.category && filter.category !== 'all' && item.category !== filter.category) return false;
+    if (filter.priority && filter.priority !== 'all' && item.priority !== filter.priority) return false;
+    if (filter.assignee && filter.assignee !== 'all' && item.assignee !== filter.assignee) return false;
+
+    switch (filter.due) {
+      case 'overdue':
+        return !!item.dueDate && item.dueDate < today;
+      case 'today':
+        return item.dueDate === today;
+      case 'week':
+        return !!item.dueDate && item.dueDate >= today && item.dueDate <= weekEnd;
+      case 'none':
+        return !item.dueDate;
+      default:
+        return true;
+    }
+  });
+}
+
+// Distinct assignees for the filter dropdown
+export function getInboxAssignees(items: InboxItem[]): string[] {
+  return [...new Set(items.map((item) => item.assignee).filter((a): a is string => !!a))].sort();
+}
@@ -0,0 +1,156 @@
+import type { ExtractionMode, PageSignals } from '../types';
+
+// Local mode detection. Before anything is sent to the AI, the page's URL,
+// title, headings and opening text are scored for signs of an email, a
+// meeting or a transcript, and the popup suggests the winning mode with the reasons found.
+
+export interface PageDescription {
+  url: string;
+  title: string;
+  site?: string; // Site adapter name, e.g. "Gmail"
+  siteMode?: ExtractionMode; // The adapter's suggested mode
+  signals?: PageSignals; // Missing when the content script is not running
+}
+
+export interface ModeSuggestion {
+  mode: ExtractionMode;
+  templateId?: string; // One of DEFAULT_TEMPLATES
+  reasons: string[]; // Short phrases, strongest first, e.g. "mail headers"
+}
+
+type ScoredMode = Exclude<ExtractionMode, 'general'>;
+
+interface Signal {
+  mode: ScoredMode;
+  weight: number;
+  reason: string;
+}
+
+// A mode needs at least this score to be suggested over General
+const MIN_SCORE = 3;
+
+// Weight for a mode suggested by a site adapter; enough on its own
+const SITE_WEIGHT = 5;
+
+// Transcripts have no template; the Meeting Follow-up template would switch to Meeting mode
+const TEMPLATE_FOR_MODE: Partial<Record<ScoredMode, string>> = {
+  email: 'email-inbox',
+  meeting: 'meeting-followup',
+};
+
+const EMAIL_HOSTS = /(^|\.)(mail\.google\.com|outlook\.(live|office|office365)\.com|mail\.yahoo\.com|app\.fastmail\.com|mail\.proton\.me|mail\.zoho\.com|icloud\.com)$/;
+const MEETING_HOSTS = /(^|\.)(zoom\.us|meet\.google\.com|teams\.microsoft\.com)$/;
+const TRANSCRIPT_HOSTS = /(^|\.)(otter\.ai|fireflies\.ai|fathom\.video|tldv\.io|grain\.com)$/;
+const MEETING_WORDS = /\b(meeting notes|minutes|stand-?up|retro(spective)?|1:1|one-on-one|sync|kick-?off|all-hands|agenda)\b/i;
+
+const URL_SIGNALS: Array<{ pattern: RegExp; signal: Signal }> = [
+  { pattern: /\/(mail|inbox|webmail)(\/|$)/i, signal: { mode: 'email', weight: 2, reason: 'mail URL' } },
+  { pattern: /\/(meeting|minutes|standup|retro)s?(\/|-|$)/i, signal: { mode: 'meeting', weight: 2, reason: 'meeting URL' } },
+];
+
+const HEADING_SIGNALS: Array<{ pattern: RegExp; signal: Signal }> = [
+  { pattern: /^(action items?|next steps|follow-?ups|takeaways)\b/i, signal: { mode: 'meeting', weight: 2, reason: '"Action items" section' } },
+  { pattern: /^(attendees|participants|present)\b/i, signal: { mode: 'meeting', weight: 2, reason: 'attendee list' } },
+  { pattern: /^(agenda|discussion|decisions( made)?)\b/i, signal: { mode: 'meeting', weight: 1, reason: 'agenda heading' } },
+];
+
+const TEXT_SIGNALS: Array<{ pattern: RegExp; minCount: number; signal: Signal }> = [
+  { pattern: /^\s*(from|to|cc|subject|sent|date)\s*:/gim, minCount: 2, signal: { mode: 'email', weight: 3, reason: 'mail headers' } },
+  { pattern: /^on .{5,80} wrote:\s*$/gim, minCount: 1, signal: { mode: 'email', weight: 2, reason: 'quoted reply' } },
+  { pattern: /^\s*(hi|hello|hey|dear)\b[^\n]{0,40},\s*$/gim, minCount: 1, signal: { mode: 'email', weight: 1, reason: 'greeting' } },
+  { pattern: /^\s*(thanks|thank you|best|regards|kind regards|cheers|sincerely),?\s*$/gim, minCount: 1, signal: { mode: 'email', weight: 1, reason: 'sign-off' } },
+  { pattern: /^\s*(attendees|participants|present)\s*:/gim, minCount: 1, signal: { mode: 'meeting', weight: 3, reason: 'attendee list' } },
+  { pattern: /^\s*(action items?|next steps)\s*:?\s*$/gim, minCount: 1, signal: { mode: 'meeting', weight: 2, reason: '"Action items" section' } },
+  // Transcript lines such as "[00:12:34] Sam:" or "10:15 Alex Kim:"
+  { pattern: /^\s*\[?\d{1,2}:\d{2}(:\d{2})?\]?\s+[^\n:]{1,40}:/gm, minCount: 3, signal: { mode: 'transcript', weight: 3, reason: 'speaker timestamps' } },
+  // Caption cues, e.g. "00:00:01.000 --> 00:00:04.000"
+  { pattern: /^\d{1,2}:\d{2}(:\d{2})?[.,]\d{3} --> /gm, minCount: 3, signal: { mode: 'transcript', weight: 3, reason: 'caption timings' } },
+];
+
+// Headings of project documents, which suit the Project Planning template
+const PROJECT_HEADINGS = /^(requirements|milestones|deliverables|scope|timeline|roadmap|goals|objectives|success criteria)\b/i;
+
+function urlSignals(page: PageDescription): Signal[] {
+  const signals: Signal[] = [];
+  let url: URL | null = null;
+  try {
+    url = new URL(page.url);
+  } catch {
+    // Not a web page; only the title is scored
+  }
+
+  if (page.site && page.siteMode && page.siteMode !== 'general') {
+    signals.push({ mode: page.siteMode, weight: SITE_WEIGHT, reason: `${page.site} page` });
+  } else if (url && EMAIL_HOSTS.test(url.hostname)) {
+    signals.push({ mode: 'email', weight: 3, reason: 'webmail site' });
+  }
+  if (url && MEETING_HOSTS.test(url.hostname)) {
+    signals.push({ mode: 'meeting', weight: 3, reason: 'meeting app' });
+  }
+  if (url && TRANSCRIPT_HOSTS.test(url.hostname)) {
+    signals.push({ mode: 'transcript', weight: 3, reason: 'transcription app' });
+  }
+  const path = url?.pathname || '';
+  URL_SIGNALS.filter(({ pattern }) => pattern.test(path)).forEach(({ signal }) => signals.push(signal));
+
+  if (/^\s*(re|fwd?|aw|sv)\s*:/i.test(page.title)) {
+    signals.push({ mode: 'email', weight: 2, reason: 'reply subject' });
+  }
+  if (MEETING_WORDS.test(page.title)) {
+    signals.push({ mode: 'meeting', weight: 2, reason: 'meeting title' });
+  }
+  return signals;
+}
+
+function contentSignals(signals: PageSignals): Signal[] {
+  const found: Signal[] = [];
+  for (const { pattern, signal } of HEADING_SIGNALS) {
+    if (signals.headings.some((heading) => pattern.test(heading))) found.push(signal);
+  }
+  for (const { pattern, minCount, signal } of TEXT_SIGNALS) {
+    const count = signals.textSample.match(pattern)?.length || 0;
+    if (count >= minCount) found.push(signal);
+  }
+  if (signals.mailtoLinks >= 3) {
+    found.push({ mode: 'email', weight: 1, reason: 'email addresses' });
+  }
+  return found;
+}
+
+/**
+ * Suggest an extraction mode, and a template to go with it, for a page.
+ * Returns null when nothing points away from General and the page is not
+ * a recognised site, so the popup has nothing to say.
+ */
+export function classifyPage(page: PageDescription): ModeSuggestion | null {
+  const signals = [...urlSignals(page), ...(page.signals ? contentSignals(page.signals) : [])];
+
+  const scores: Record<ScoredMode, number> = { email: 0, meeting: 0, transcript: 0 };
+  const reasons: Record<ScoredMode, Signal[]> = { email: [], meeting: [], transcript: [] };
+  for (const signal of signals) {
+    // The same clue found twice (heading and text) counts once
+    if (reasons[signal.mode].some((s) => s.reason === signal.reason)) continue;
+    scores[signal.mode] += signal.weight;
+    reasons[signal.mode].push(signal);
+  }
+
+  // A tie for first place is no evidence either way
+  const ranked = (Object.keys(scores) as ScoredMode[]).sort((a, b) => scores[b] - scores[a]);
+  const best = ranked[0];
+  if (scores[best] >= MIN_SCORE && scores[best] !== scores[ranked[1]]) {
+    return {
+      mode: best,
+      templateId: TEMPLATE_FOR_MODE[best],
+      reasons: reasons[best].sort((a, b) => b.weight - a.weight).map((s) => s.reason),
+    };
+  }
+
+  const projectHeadings = page.signals?.headings.filter((heading) => PROJECT_HEADINGS.test(heading)) || [];
+  if (projectHeadings.length >= 2) {
+    return { mode: 'general', templateId: 'project-planning', reasons: ['project headings'] };
+  }
+  if (page.site) {
+    return { mode: 'general', reasons: [`${page.site} page`] };
+  }
+  return null;
+}
@@ -1,4 +1,6 @@
 import type { ExtractionMode, ExtractionRule } from '../types';
+import { formatDate } from './dates';
+import { parseTranscript, transcriptSpeakers } from './transcript';
 
 const BASE_JSON_FORMAT = `{
   "tasks": [
@@ -9,6 +11,7 @@ const BASE_JSON_FORMAT = `{
       "category": "action|follow-up|decision|deadline|question|idea|other",
       "assignee": "Person name or null",
       "dueDate": "YYYY-MM-DD or null",
+      "dueDateText": "The date as written, e.g. \"by Friday\", or null",
       "context": "Brief context of where this was found",
       "confidence": 0.85,
       "subTasks": [
@@ -48,7 +51,7 @@ Page Title: "${title}"
 
 Content:
 """
-${content.slice(0, 15000)}
+${content}
 """
 
 For each task you identify, determine:
@@ -94,7 +97,7 @@ Email Subject: "${title}"
 
 Email Content:
 """
-${content.slice(0, 15000)}
+${content}
 """
 
 EMAIL-SPECIFIC EXTRACTION RULES:
@@ -135,6 +138,7 @@ Respond in this JSON format:
       "category": "action|follow-up|decision|deadline|question|idea|other",
       "assignee": "Person name or null",
       "dueDate": "YYYY-MM-DD or null",
+      "dueDateText": "The date as written, e.g. \"by Friday\", or null",
       "context": "From email about...",
       "confidence": 0.85,
       "subTasks": [{"title": "Sub-task"}],
@@ -156,7 +160,7 @@ Meeting Title: "${title}"
 
 Meeting Notes:
 """
-${content.slice(0, 15000)}
+${content}
 """
 
 MEETING-SPECIFIC EXTRACTION RULES:
@@ -199,6 +203,7 @@ Respond in this JSON format:
       "category": "action|follow-up|decision|deadline|question|idea|other",
       "assignee": "Person name or null",
       "dueDate": "YYYY-MM-DD or null",
+      "dueDateText": "The date as written, e.g. \"by Friday\", or null",
       "context": "Discussed in meeting...",
       "confidence": 0.85,
       "subTasks": [{"title": "Sub-task"}],
@@ -213,6 +218,87 @@ If no tasks found, return: {"tasks": []}
 Return only valid JSON.`;
 }
 
+function buildTranscriptPrompt(content: string, title: string): string {
+  const speakers = transcriptSpeakers(parseTranscript(content));
+  const speakerList = speakers.length > 0 ? speakers.join(', ') : 'not labelled';
+
+  return `You are an expert at extracting commitments from meeting transcripts. Analyze this transcript and identify every action item, decision, follow-up and open question, and who took each one on.
+
+Meeting Title: "${title}"
+
+Speakers: ${speakerList}
+
+Transcript (one speaker turn per paragraph, "[hh:mm:ss] Speaker: words"):
+"""
+${content}
+"""
+
+TRANSCRIPT-SPECIFIC EXTRACTION RULES:
+1. A speaker who says "I'll", "I will", "let me" or "I can take that" commits to the task themselves
+2. When a speaker asks someone by name ("Sam, can you...") and they agree, the person who agreed owns it
+3. Use the speaker names exactly as listed above for assignee and commitment.speaker
+4. Set commitment.timestamp to the [hh:mm:ss] of the turn where the commitment was made, and commitment.quote to the words that made it (under 20 words)
+5. Leave commitment null for decisions and questions nobody took on
+6. Ignore small talk, greetings and filler ("um", "you know")
+7. Merge a task that is discussed across several turns into one task
+8. Detect deadlines mentioned ("by Thursday", "before the next sync")
+9. Speech-to-text errors are common; correct obvious misspellings of names and terms
+
+For each task, determine:
+1. A clear, actionable title (start with a verb)
+2. Description with the discussion context
+3. Priority based on discussion emphasis
+4. Category: action, follow-up, decision, deadline, question, idea, other
+5. Assignee (the speaker responsible)
+6. Due date in YYYY-MM-DD format
+7. Commitment: who committed, when, and what they said
+8. Confidence score (0-1); lower when the owner is implied rather than stated
+9. Sub-tasks for multi-step items
+10. Time estimate based on scope discussed
+
+${CONFIDENCE_GUIDELINES}
+
+${TIME_ESTIMATE_GUIDELINES}
+
+Respond in this JSON format:
+{
+  "tasks": [
+    {
+      "title": "Clear actionable task",
+      "description": "Discussion context",
+      "priority": "high|medium|low",
+      "category": "action|follow-up|decision|deadline|question|idea|other",
+      "assignee": "Speaker name or null",
+      "dueDate": "YYYY-MM-DD or null",
+      "dueDateText": "The date as written, e.g. \"by Friday\", or null",
+      "context": "Discussed at 00:12:34...",
+      "confidence": 0.85,
+      "subTasks": [{"title": "Sub-task"}],
+      "timeEstimate": "2h",
+      "commitment": {"speaker": "Speaker name", "timestamp": "00:12:34", "quote": "I'll send the draft by Friday"}
+    }
+  ]
+}
+
+If no tasks found, return: {"tasks": []}
+Return only valid JSON.`;
+}
+
+// Where a chunk sits within a longer document
+export interface PromptSection {
+  index: number;
+  total: number;
+}
+
+function buildSectionNote(section: PromptSection): string {
+  return `\n\nDOCUMENT SECTION:\nThis content is section ${section.index} of ${section.total} from a longer document. Text marked [...previous section] repeats the end of the prior section for context only; do not extract tasks that appear solely in that repeated text. Only extract tasks found in this section.\n`;
+}
+
+function buildReferenceDateNote(referenceDate: Date): string {
+  const weekday = referenceDate.toLocaleDateString('en-US', { weekday: 'long' });
+  return `\n\nDATES:\nThe reference date is ${weekday}, ${formatDate(referenceDate)}. Resolve relative dates ("by Friday", "next week", "end of month") against it and return dueDate as YYYY-MM-DD. Put the date exactly as written in dueDateText. If a date cannot be worked out from the text (e.g. "next sprint"), set dueDate to null and still fill in dueDateText.\n`;
+}
+
 function buildCustomRulesSection(rules: ExtractionRule[]): string {
   const enabledRules = rules.filter((r) => r.enabled);
   if (enabledRules.length === 0) return '';
@@ -220,6 +306,7 @@ function buildCustomRulesSection(rules: ExtractionRule[]): string {
   let section = '\n\nCUSTOM EXTRACTION RULES (apply these strictly):\n';
 
   const keywordRules = enabledRules.filter((r) => r.type === 'keyword');
+  const patternRules = enabledRules.filter((r) => r.type === 'pattern');
   const ignoreRules = enabledRules.filter((r) => r.type === 'ignore');
 
   if (keywordRules.length > 0) {
@@ -233,6 +320,16 @@ function buildCustomRulesSection(rules: ExtractionRule[]): string {
     }
   }
 
+  if (patternRules.length > 0) {
+    section += '\nPriority Patterns (case-insensitive regular expressions):\n';
+    for (const rule of patternRules) {
+      const actions: string[] = [];
+      if (rule.action.priority) actions.push(`mark as ${rule.action.priority} priority`);
+      if (rule.action.category) actions.push(`categorize as ${rule.action.category}`);
+      section += `- If a task matches /${rule.value}/: ${actions.join(' and ')}\n`;
+    }
+  }
+
   if (ignoreRules.length > 0) {
     section += '\nIgnore Patterns (do NOT extract as tasks):\n';
     for (const rule of ignoreRules) {
@@ -248,7 +345,9 @@ export function buildExtractionPrompt(
   content: string,
   title: string,
   mode: ExtractionMode = 'general',
-  customRules: ExtractionRule[] = []
+  customRules: ExtractionRule[] = [],
+  section?: PromptSection,
+  referenceDate: Date = new Date()
 ): string {
   let basePrompt: string;
   switch (mode) {
@@ -258,23 +357,49 @@ export function buildExtractionPrompt(
     case 'meeting':
       basePrompt = buildMeetingPrompt(content, title);
       break;
+    case 'transcript':
+      basePrompt = buildTranscriptPrompt(content, title);
+      break;
     default:
       basePrompt = buildGeneralPrompt(content, title);
   }
 
-  // Insert custom rules before the JSON format section
+  // Insert the reference date, custom rules and section context before the JSON format section
+  let extraSections = buildReferenceDateNote(referenceDate);
   if (customRules.length > 0) {
-    const rulesSection = buildCustomRulesSection(customRules);
-    // Insert before "Respond in this" or "Return only"
-    const insertPoint = basePrompt.lastIndexOf('Respond in');
-    if (insertPoint > 0) {
-      basePrompt = basePrompt.slice(0, insertPoint) + rulesSection + '\n\n' + basePrompt.slice(insertPoint);
-    }
+    extraSections += buildCustomRulesSection(customRules);
+  }
+  if (section && section.total > 1) {
+    extraSections += buildSectionNote(section);
+  }
+  // Insert before "Respond in this" or "Return only"
+  const insertPoint = basePrompt.lastIndexOf('Respond in');
+  if (insertPoint > 0) {
+    basePrompt = basePrompt.slice(0, insertPoint) + extraSections + '\n\n' + basePrompt.slice(insertPoint);
   }
 
   return basePrompt;
 }
 
+// Follow-up prompt asking the model to fix a reply that failed schema validation
+export function buildRepairPrompt(originalPrompt: string, invalidResponse: string, errors: string[]): string {
+  return `${originalPrompt}
+
+---
+
+Your previous reply did not match the required JSON format.
+
+Previous reply:
+"""
+${invalidResponse.slice(0, 8000)}
+"""
+
+Validation errors:
+${errors.slice(0, 20).map((e) => `- ${e}`).join('\n')}
+
+Return the corrected result as valid JSON in the exact format above. Keep the same tasks; only fix the problems listed.`;
+}
+
 export function getExtractionTips(mode: ExtractionMode = 'general'): string[] {
   const baseTips = [
     'You can edit tasks before exporting them',
@@ -296,6 +421,13 @@ export function getExtractionTips(mode: ExtractionMode = 'general'): string[] {
         'Identifies assignees from attendee mentions',
         ...baseTips,
       ];
+    case 'transcript':
+      return [
+        'Transcript mode reads VTT, SRT and "Name: text" transcripts',
+        'Each task records who committed to it and when',
+        'Timestamps link to YouTube, Vimeo and Loom recordings',
+        ...baseTips,
+      ];
     default:
       return [
         'Works best on meeting notes, emails, articles, and documents',
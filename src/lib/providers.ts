@@ -0,0 +1,151 @@
+import type { AIProvider, AIProviderConfig, Settings } from '../types';
+import { generateId } from './storage';
+
+// Providers that ship with the extension
+export const BUILT_IN_PROVIDERS: AIProviderConfig[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    apiFormat: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    authScheme: 'bearer',
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+    defaultModel: 'gpt-4o-mini',
+    builtIn: true,
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    apiFormat: 'anthropic',
+    baseUrl: 'https://api.anthropic.com/v1',
+    authScheme: 'x-api-key',
+    models: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+    defaultModel: 'claude-3-5-haiku-latest',
+    builtIn: true,
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama (local)',
+    apiFormat: 'openai',
+    baseUrl: 'http://localhost:11434/v1',
+    authScheme: 'none',
+    models: ['llama3.1', 'qwen2.5', 'mistral'],
+    defaultModel: 'llama3.1',
+    builtIn: true,
+  },
+];
+
+// All providers available to the user, built-in first
+export function getProviders(settings: Settings): AIProviderConfig[] {
+  return [...BUILT_IN_PROVIDERS, ...(settings.customProviders || [])];
+}
+
+// The provider with the given id, or the selected provider if no id is passed
+export function getProvider(settings: Settings, id: AIProvider = settings.aiProvider): AIProviderConfig | undefined {
+  return getProviders(settings).find((p) => p.id === id);
+}
+
+export function getProviderApiKey(settings: Settings, provider: AIProviderConfig): string {
+  if (provider.id === 'openai') return settings.openaiApiKey;
+  if (provider.id === 'anthropic') return settings.anthropicApiKey;
+  return provider.apiKey || '';
+}
+
+export function getProviderModel(settings: Settings, provider: AIProviderConfig): string {
+  return settings.providerModels?.[provider.id] || provider.defaultModel;
+}
+
+/**
+ * Check that the selected provider can be called.
+ * Returns a user-facing error message, or null when it is ready.
+ */
+export function validateProviderSettings(settings: Settings): string | null {
+  const provider = getProvider(settings);
+  if (!provider) {
+    return 'The selected AI provider no longer exists. Please choose one in settings.';
+  }
+  if (!provider.baseUrl) {
+    return `Please configure a base URL for ${provider.name} in settings`;
+  }
+  if (!getProviderModel(settings, provider)) {
+    return `Please choose a model for ${provider.name} in settings`;
+  }
+  if (provider.authScheme !== 'none' && !getProviderApiKey(settings, provider)) {
+    return `Please configure your ${provider.name} API key in settings`;
+  }
+  return null;
+}
+
+// Request headers carrying the API key in the provider's scheme
+export function buildAuthHeaders(provider: AIProviderConfig, apiKey: string): Record<string, string> {
+  if (!apiKey) return {};
+  switch (provider.authScheme) {
+    case 'bearer':
+      return { Authorization: `Bearer ${apiKey}` };
+    case 'x-api-key':
+      return { 'x-api-key': apiKey };
+    case 'api-key':
+      return { 'api-key': apiKey };
+    default:
+      return {};
+  }
+}
+
+// Join a base URL and an API path without doubling slashes
+export function providerUrl(provider: AIProviderConfig, path: string): string {
+  return `${provider.baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+// A new OpenAI-compatible endpoint with sensible defaults
+export function createCustomProvider(): AIProviderConfig {
+  return {
+    id: `custom-${generateId()}`,
+    name: 'Custom endpoint',
+    apiFormat: 'openai',
+    baseUrl: 'http://localhost:8080/v1',
+    authScheme: 'bearer',
+    models: [],
+    defaultModel: '',
+    apiKey: '',
+  };
+}
+
+// Origin pattern used for the optional host permission of a provider
+function originPattern(baseUrl: string): string | null {
+  try {
+    const url = new URL(baseUrl);
+    return `${url.protocol}//${url.hostname}/*`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask Chrome for access to a provider's host. Built-in cloud providers send
+ * CORS headers and need no permission; self-hosted gateways and localhost do.
+ * Must be called from a user gesture.
+ */
+export async function requestProviderPermission(provider: AIProviderConfig): Promise<boolean> {
+  if (provider.id === 'openai' || provider.id === 'anthropic') return true;
+  const origin = originPattern(provider.baseUrl);
+  if (!origin) return false;
+  return chrome.permissions.request({ origins: [origin] });
+}
+
+/**
+ * List the models an OpenAI-compatible endpoint serves via GET /models.
+ * Used by the settings page to fill the model picker.
+ */
+export async function fetchProviderModels(provider: AIProviderConfig, apiKey: string): Promise<string[]> {
+  if (provider.apiFormat !== 'openai') return provider.models;
+
+  const response = await fetch(providerUrl(provider, 'models'), {
+    headers: buildAuthHeaders(provider, apiKey),
+  });
+  if (!response.ok) {
+    throw new Error(`${provider.name} returned ${response.status} when listing models`);
+  }
+
+  const data: { data?: Array<{ id: string }> } = await response.json();
+  return (data.data || []).map((m) => m.id).sort();
+}
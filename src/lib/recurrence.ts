@@ -0,0 +1,87 @@
+import type { RecurringPattern } from '../types';
+
+// iCalendar weekday codes, indexed like Date.getDay()
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// The AI may return days outside the valid range; those are ignored
+function weekday(pattern: RecurringPattern): number | undefined {
+  const day = pattern.dayOfWeek;
+  return day !== undefined && Number.isInteger(day) && day >= 0 && day <= 6 ? day : undefined;
+}
+
+function monthDay(pattern: RecurringPattern): number | undefined {
+  const day = pattern.dayOfMonth;
+  return day !== undefined && Number.isInteger(day) && day >= 1 && day <= 31 ? day : undefined;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * The pattern as an iCalendar RRULE value (without the "RRULE:" prefix),
+ * e.g. "FREQ=WEEKLY;BYDAY=MO". Every destination that takes a rule gets
+ * this one, so a task repeats the same way everywhere.
+ */
+export function toRRule(pattern: RecurringPattern): string {
+  const day = weekday(pattern);
+  const dayOfMonth = monthDay(pattern);
+  const byDay = day !== undefined ? `;BYDAY=${RRULE_DAYS[day]}` : '';
+  const byMonthDay = dayOfMonth !== undefined ? `;BYMONTHDAY=${dayOfMonth}` : '';
+
+  switch (pattern.frequency) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return `FREQ=WEEKLY${byDay}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2${byDay}`;
+    case 'monthly':
+      return `FREQ=MONTHLY${byMonthDay}`;
+    case 'quarterly':
+      return `FREQ=MONTHLY;INTERVAL=3${byMonthDay}`;
+    case 'yearly':
+      return 'FREQ=YEARLY';
+  }
+}
+
+/**
+ * The pattern in Todoist's natural language, e.g. "every monday". A due
+ * date becomes the first occurrence.
+ */
+export function toTodoistDueString(pattern: RecurringPattern, startDate?: string): string {
+  const day = weekday(pattern);
+  const dayOfMonth = monthDay(pattern);
+  let text: string;
+
+  switch (pattern.frequency) {
+    case 'daily':
+      text = 'every day';
+      break;
+    case 'weekly':
+      text = day !== undefined ? `every ${DAY_NAMES[day]}` : 'every week';
+      break;
+    case 'biweekly':
+      text = day !== undefined ? `every other ${DAY_NAMES[day]}` : 'every 2 weeks';
+      break;
+    case 'monthly':
+      text = dayOfMonth !== undefined ? `every ${ordinal(dayOfMonth)}` : 'every month';
+      break;
+    case 'quarterly':
+      text = 'every 3 months';
+      break;
+    case 'yearly':
+      text = 'every year';
+      break;
+  }
+
+  return startDate ? `${text} starting ${startDate}` : text;
+}
+
+// A line for destinations whose API cannot make a task repeat
+export function describeRecurrence(pattern: RecurringPattern): string {
+  return `Repeats: ${pattern.description}`;
+}
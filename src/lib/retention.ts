@@ -0,0 +1,87 @@
+import type { HistoryEntry, ExtractionResult, Settings } from '../types';
+import { FREE_TIER_LIMITS } from '../types';
+import { getHistory, saveHistory, getExtractions, saveExtractions } from './storage';
+
+// Alarm that runs pruneStorage in the service worker
+export const RETENTION_ALARM = 'retention-prune';
+export const RETENTION_INTERVAL_MINUTES = 6 * 60;
+
+// Budget for free users; Pro users choose their own
+export const DEFAULT_STORAGE_BUDGET_MB = 5;
+
+export const RETENTION_DAY_OPTIONS = [7, 30, 90, 365, -1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+  days: number; // -1 = keep forever
+  budgetBytes: number;
+}
+
+export interface PruneResult {
+  historyRemoved: number;
+  extractionsRemoved: number;
+}
+
+export function getRetentionPolicy(settings: Settings): RetentionPolicy {
+  if (!settings.isPro) {
+    return {
+      days: FREE_TIER_LIMITS.historyDays,
+      budgetBytes: DEFAULT_STORAGE_BUDGET_MB * 1024 * 1024,
+    };
+  }
+  return {
+    days: settings.historyRetentionDays,
+    budgetBytes: (settings.storageBudgetMb || DEFAULT_STORAGE_BUDGET_MB) * 1024 * 1024,
+  };
+}
+
+export function describeRetention(days: number): string {
+  if (days < 0) return 'forever';
+  if (days === 365) return '1 year';
+  return `${days} day${days !== 1 ? 's' : ''}`;
+}
+
+// Approximate size of a value as stored by chrome.storage
+export function estimateBytes(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+/**
+ * Remove history entries and cached extractions older than the retention
+ * window, then drop the oldest extractions (and if needed history entries)
+ * until both fit the storage budget. The task inbox is not pruned; its
+ * items are removed by the user.
+ */
+export async function pruneStorage(settings: Settings): Promise<PruneResult> {
+  const policy = getRetentionPolicy(settings);
+  const [history, extractions] = await Promise.all([getHistory(), getExtractions()]);
+
+  let keptHistory: HistoryEntry[] = history;
+  let keptExtractions: ExtractionResult[] = extractions;
+
+  if (policy.days >= 0) {
+    const cutoff = Date.now() - policy.days * DAY_MS;
+    keptHistory = keptHistory.filter((entry) => entry.extractedAt >= cutoff);
+    keptExtractions = keptExtractions.filter((extraction) => extraction.extractedAt >= cutoff);
+  }
+
+  // Both lists are stored newest first, so trim from the end
+  let size = estimateBytes(keptHistory) + estimateBytes(keptExtractions);
+  while (size > policy.budgetBytes && keptExtractions.length > 0) {
+    size -= estimateBytes(keptExtractions[keptExtractions.length - 1]);
+    keptExtractions = keptExtractions.slice(0, -1);
+  }
+  while (size > policy.budgetBytes && keptHistory.length > 0) {
+    size -= estimateBytes(keptHistory[keptHistory.length - 1]);
+    keptHistory = keptHistory.slice(0, -1);
+  }
+
+  const result: PruneResult = {
+    historyRemoved: history.length - keptHistory.length,
+    extractionsRemoved: extractions.length - keptExtractions.length,
+  };
+  if (result.historyRemoved > 0) await saveHistory(keptHistory);
+  if (result.extractionsRemoved > 0) await saveExtractions(keptExtractions);
+  return result;
+}
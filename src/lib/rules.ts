@@ -0,0 +1,120 @@
+import type { AppliedRule, ExtractedTask, ExtractionRule } from '../types';
+
+// Split a comma-separated rule value into normalized keywords
+function parseKeywords(value: string): string[] {
+  return value
+    .split(',')
+    .map((k) => k.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Compile a pattern rule, returning null for invalid regexes
+function compilePattern(value: string): RegExp | null {
+  if (!value.trim()) return null;
+  try {
+    return new RegExp(value, 'i');
+  } catch {
+    return null;
+  }
+}
+
+export function isValidPattern(value: string): boolean {
+  return compilePattern(value) !== null;
+}
+
+// Text the rules are matched against
+function getSearchableText(task: ExtractedTask): string {
+  return [task.title, task.description, task.context].filter(Boolean).join('\n');
+}
+
+// Returns the matched text if the rule fires for this task, otherwise null
+function matchRule(rule: ExtractionRule, text: string): string | null {
+  if (rule.type === 'pattern') {
+    const regex = compilePattern(rule.value);
+    const match = regex ? text.match(regex) : null;
+    return match ? match[0] : null;
+  }
+
+  const lowerText = text.toLowerCase();
+  const keyword = parseKeywords(rule.value).find((k) => lowerText.includes(k));
+  return keyword || null;
+}
+
+/**
+ * Apply custom extraction rules to tasks after the AI has returned them.
+ * Ignore rules drop the task; keyword and pattern rules set priority and
+ * category. Rules run in order, so later rules win on conflicts. Every rule
+ * that fired is recorded on the task in `appliedRules`.
+ */
+export function applyExtractionRules(
+  tasks: ExtractedTask[],
+  rules: ExtractionRule[]
+): ExtractedTask[] {
+  const enabledRules = rules.filter((r) => r.enabled && r.value.trim());
+  if (enabledRules.length === 0) return tasks;
+
+  const result: ExtractedTask[] = [];
+
+  for (const task of tasks) {
+    const text = getSearchableText(task);
+
+    // Ignore rules take precedence over everything else
+    const ignored = enabledRules.some(
+      (rule) => rule.type === 'ignore' && matchRule(rule, text) !== null
+    );
+    if (ignored) continue;
+
+    let updated: ExtractedTask = task;
+    const applied: AppliedRule[] = [];
+
+    for (const rule of enabledRules) {
+      if (rule.type === 'ignore') continue;
+
+      const matched = matchRule(rule, text);
+      if (matched === null) continue;
+
+      const changes: AppliedRule['changes'] = {};
+      if (rule.action.priority && rule.action.priority !== updated.priority) {
+        changes.priority = { from: updated.priority, to: rule.action.priority };
+      }
+      if (rule.action.category && rule.action.category !== updated.category) {
+        changes.category = { from: updated.category, to: rule.action.category };
+      }
+
+      updated = {
+        ...updated,
+        priority: rule.action.priority || updated.priority,
+        category: rule.action.category || updated.category,
+      };
+
+      applied.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        matched,
+        changes,
+      });
+    }
+
+    if (applied.length > 0) {
+      updated = { ...updated, appliedRules: applied };
+    }
+
+    result.push(updated);
+  }
+
+  return result;
+}
+
+// Human-readable summary of why a rule changed a task
+export function describeAppliedRule(applied: AppliedRule): string {
+  const parts: string[] = [];
+  if (applied.changes.priority) {
+    parts.push(`priority ${applied.changes.priority.from} → ${applied.changes.priority.to}`);
+  }
+  if (applied.changes.category) {
+    parts.push(`category ${applied.changes.category.from} → ${applied.changes.category.to}`);
+  }
+  const effect = parts.length > 0 ? parts.join(', ') : 'no change';
+  return `${applied.ruleName}: matched "${applied.matched}" (${effect})`;
+}
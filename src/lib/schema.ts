@@ -0,0 +1,142 @@
+import {
+  PRIORITY_LABELS,
+  CATEGORY_LABELS,
+  TIME_ESTIMATE_LABELS,
+  RECURRING_LABELS,
+} from '../types';
+
+type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// The subset of JSON Schema used for structured extraction output
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: Array<string | number | null>;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Schema for one task as returned by the model. Enum values come from the
+ * label maps in types so the schema stays in step with ExtractedTask.
+ */
+export const TASK_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Clear actionable task title' },
+    description: { type: ['string', 'null'], description: 'Optional additional details' },
+    priority: { type: 'string', enum: Object.keys(PRIORITY_LABELS) },
+    category: { type: 'string', enum: Object.keys(CATEGORY_LABELS) },
+    assignee: { type: ['string', 'null'], description: 'Person name or null' },
+    dueDate: { type: ['string', 'null'], description: 'YYYY-MM-DD or null' },
+    dueDateText: { type: ['string', 'null'], description: 'The due date phrase as written, e.g. "by Friday"' },
+    context: { type: ['string', 'null'], description: 'Brief context of where this was found' },
+    confidence: { type: ['number', 'null'], minimum: 0, maximum: 1 },
+    subTasks: {
+      type: ['array', 'null'],
+      items: {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+        required: ['title'],
+      },
+    },
+    recurring: {
+      type: ['object', 'null'],
+      properties: {
+        frequency: { type: 'string', enum: Object.keys(RECURRING_LABELS) },
+        description: { type: 'string' },
+        dayOfWeek: { type: ['integer', 'null'], minimum: 0, maximum: 6 },
+        dayOfMonth: { type: ['integer', 'null'], minimum: 1, maximum: 31 },
+      },
+      required: ['frequency'],
+    },
+    timeEstimate: { type: ['string', 'null'], enum: [...Object.keys(TIME_ESTIMATE_LABELS), null] },
+    sender: { type: ['string', 'null'], description: 'Email sender (email mode)' },
+    attendees: { type: ['array', 'null'], items: { type: 'string' } },
+    commitment: {
+      type: ['object', 'null'],
+      description: 'Who committed to the task and when (transcript mode)',
+      properties: {
+        speaker: { type: 'string' },
+        timestamp: { type: ['string', 'null'] },
+        quote: { type: ['string', 'null'] },
+      },
+      required: ['speaker'],
+    },
+  },
+  required: ['title', 'priority', 'category'],
+};
+
+export const TASKS_RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    tasks: { type: 'array', items: TASK_SCHEMA },
+  },
+  required: ['tasks'],
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JSONSchema['type']>): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  const actual = typeOf(value);
+  return types.some((t) => t === actual || (t === 'number' && actual === 'integer'));
+}
+
+/**
+ * Validate a value against a schema. Returns a list of human-readable errors
+ * with JSON paths, empty when the value is valid.
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+    errors.push(`${path}: expected ${expected}, got ${typeOf(value)}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | null)) {
+    errors.push(`${path}: must be one of ${schema.enum.filter((v) => v !== null).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`));
+    });
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value) && schema.properties) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties)) {
+      if (obj[key] !== undefined) {
+        errors.push(...validateSchema(obj[key], propSchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
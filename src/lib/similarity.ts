@@ -0,0 +1,149 @@
+import type { DuplicateMatch, ExportDestination, ExtractedTask } from '../types';
+import { normalizeTaskTitle } from './chunking';
+import { getExtractions } from './storage';
+import { getInboxItems } from './inbox';
+
+// Score at or above which a new task is flagged as a likely duplicate
+export const DUPLICATE_THRESHOLD = 0.7;
+
+// Words that carry no meaning for matching task titles
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'about', 'into', 'that', 'this', 'our', 'your',
+  'all', 'any', 'are', 'was', 'will', 'should', 'need', 'needs', 'please', 'make', 'sure',
+]);
+
+// A previously seen task, ready for comparison
+export interface IndexedTask {
+  id: string;
+  title: string;
+  normalizedTitle: string;
+  tokens: Set<string>;
+  assignee?: string;
+  dueDate?: string;
+  extractionId: string;
+  sourceTitle: string;
+  sourceUrl: string;
+  extractedAt: number;
+  exportedTo: ExportDestination[];
+}
+
+export function titleTokens(title: string): Set<string> {
+  return new Set(
+    normalizeTaskTitle(title)
+      .split(' ')
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+      // Light stemming so "reports" matches "report"
+      .map((word) => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((token) => {
+    if (b.has(token)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of a new task to an indexed one, 0-1. Title token overlap is
+ * the base score; matching assignee and due date raise it and conflicting
+ * ones lower it.
+ */
+export function taskSimilarity(task: ExtractedTask, other: IndexedTask): number {
+  const normalized = normalizeTaskTitle(task.title);
+  let score = normalized === other.normalizedTitle ? 1 : jaccard(titleTokens(task.title), other.tokens);
+
+  if (task.assignee && other.assignee) {
+    score += task.assignee.toLowerCase() === other.assignee.toLowerCase() ? 0.15 : -0.35;
+  }
+  if (task.dueDate && other.dueDate) {
+    score += task.dueDate === other.dueDate ? 0.15 : -0.2;
+  }
+
+  return Math.max(0, Math.min(1, score));
+}
+
+function indexTask(
+  task: Pick<ExtractedTask, 'id' | 'title' | 'assignee' | 'dueDate'>,
+  source: Pick<IndexedTask, 'extractionId' | 'sourceTitle' | 'sourceUrl' | 'extractedAt' | 'exportedTo'>
+): IndexedTask {
+  return {
+    id: task.id,
+    title: task.title,
+    normalizedTitle: normalizeTaskTitle(task.title),
+    tokens: titleTokens(task.title),
+    assignee: task.assignee,
+    dueDate: task.dueDate,
+    ...source,
+  };
+}
+
+/**
+ * Index every task from cached extractions and the inbox. The inbox keeps
+ * tasks after their extraction has been pruned, and records single exports;
+ * extractions record every destination they were exported to.
+ */
+export async function buildSimilarityIndex(): Promise<IndexedTask[]> {
+  const [extractions, inboxItems] = await Promise.all([getExtractions(), getInboxItems()]);
+  const index = new Map<string, IndexedTask>();
+
+  for (const item of inboxItems) {
+    index.set(item.id, indexTask(item, {
+      extractionId: item.extractionId,
+      sourceTitle: item.sourceTitle,
+      sourceUrl: item.sourceUrl,
+      extractedAt: item.addedAt,
+      exportedTo: item.exportedTo ? [item.exportedTo] : [],
+    }));
+  }
+
+  for (const extraction of extractions) {
+    const destinations = [...new Set((extraction.exports || []).map((e) => e.destination))];
+    for (const task of extraction.tasks) {
+      const existing = index.get(task.id);
+      const exportedTo = task.selected ? destinations : [];
+      index.set(task.id, indexTask(task, {
+        extractionId: extraction.id,
+        sourceTitle: extraction.sourceTitle,
+        sourceUrl: extraction.sourceUrl,
+        extractedAt: extraction.extractedAt,
+        exportedTo: [...new Set([...(existing?.exportedTo || []), ...exportedTo])],
+      }));
+    }
+  }
+
+  return [...index.values()];
+}
+
+export function findDuplicate(task: ExtractedTask, index: IndexedTask[]): DuplicateMatch | null {
+  let best: { entry: IndexedTask; score: number } | null = null;
+  for (const entry of index) {
+    if (entry.id === task.id) continue;
+    const score = taskSimilarity(task, entry);
+    if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+      best = { entry, score };
+    }
+  }
+  if (!best) return null;
+
+  return {
+    taskId: best.entry.id,
+    title: best.entry.title,
+    extractionId: best.entry.extractionId,
+    sourceTitle: best.entry.sourceTitle,
+    sourceUrl: best.entry.sourceUrl,
+    extractedAt: best.entry.extractedAt,
+    exportedTo: best.entry.exportedTo.length > 0 ? best.entry.exportedTo : undefined,
+    similarity: Math.round(best.score * 100) / 100,
+  };
+}
+
+// Flag likely duplicates and unselect them so they are not exported again by default
+export function flagDuplicates(tasks: ExtractedTask[], index: IndexedTask[]): ExtractedTask[] {
+  return tasks.map((task) => {
+    const duplicateOf = findDuplicate(task, index);
+    return duplicateOf ? { ...task, duplicateOf, selected: false } : task;
+  });
+}
@@ -8,6 +8,8 @@ import type {
   ExtractionMode,
   ExportDestination,
   ExtractedTask,
+  ExtractionJob,
+  QueuedExport,
 } from '../types';
 import { DEFAULT_EXTRACTION_RULES, EMPTY_ANALYTICS } from '../types';
 
@@ -39,14 +41,20 @@ const STORAGE_KEYS = {
   EXTRACTIONS: 'ate_extractions',
   USAGE: 'ate_usage',
   ANALYTICS: 'ate_analytics',
+  JOBS: 'ate_jobs',
+  EXPORT_QUEUE: 'ate_export_queue',
 } as const;
 
 const DEFAULT_SETTINGS: Settings = {
   aiProvider: 'openai',
   openaiApiKey: '',
   anthropicApiKey: '',
+  customProviders: [],
+  providerModels: {},
   defaultExport: 'clipboard',
+  icsComponent: 'VTODO',
   defaultExtractionMode: 'general',
+  autoDetectMode: false,
   notionApiKey: '',
   notionDatabaseId: '',
   todoistApiKey: '',
@@ -62,9 +70,12 @@ const DEFAULT_SETTINGS: Settings = {
   trelloBoardId: '',
   trelloListId: '',
   googleTasksEnabled: false,
+  googleTasksListId: '',
+  jiraEmail: '',
   jiraApiToken: '',
   jiraDomain: '',
   jiraProjectKey: '',
+  jiraIssueTypeId: '',
   slackWebhookUrl: '',
   slackChannel: '',
   licenseKey: '',
@@ -77,6 +88,8 @@ const DEFAULT_SETTINGS: Settings = {
   extractionRules: DEFAULT_EXTRACTION_RULES,
   customTemplates: [],
   keyboardShortcut: 'Alt+Shift+E',
+  historyRetentionDays: -1,
+  storageBudgetMb: 5,
 };
 
 // Settings
@@ -107,6 +120,10 @@ export async function addToHistory(entry: HistoryEntry): Promise<void> {
   await chrome.storage.local.set({ [STORAGE_KEYS.HISTORY]: trimmed });
 }
 
+export async function saveHistory(history: HistoryEntry[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.HISTORY]: history });
+}
+
 export async function clearHistory(): Promise<void> {
   await chrome.storage.local.set({ [STORAGE_KEYS.HISTORY]: [] });
 }
@@ -129,6 +146,73 @@ export async function saveExtraction(extraction: ExtractionResult): Promise<void
   await chrome.storage.local.set({ [STORAGE_KEYS.EXTRACTIONS]: trimmed });
 }
 
+export async function saveExtractions(extractions: ExtractionResult[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.EXTRACTIONS]: extractions });
+}
+
+export async function getExtractionById(id: string): Promise<ExtractionResult | null> {
+  const extractions = await getExtractions();
+  return extractions.find((e) => e.id === id) || null;
+}
+
+// Update a stored extraction in place; a no-op if it has been evicted
+async function updateExtraction(
+  id: string,
+  update: (extraction: ExtractionResult) => ExtractionResult
+): Promise<void> {
+  const extractions = await getExtractions();
+  if (!extractions.some((e) => e.id === id)) return;
+  await chrome.storage.local.set({
+    [STORAGE_KEYS.EXTRACTIONS]: extractions.map((e) => (e.id === id ? update(e) : e)),
+  });
+}
+
+export async function saveExtractionTasks(id: string, tasks: ExtractedTask[]): Promise<void> {
+  await updateExtraction(id, (extraction) => ({ ...extraction, tasks }));
+}
+
+export async function recordExtractionExport(
+  id: string,
+  destination: ExportDestination,
+  taskCount: number
+): Promise<void> {
+  await updateExtraction(id, (extraction) => ({
+    ...extraction,
+    exports: [...(extraction.exports || []), { destination, taskCount, exportedAt: Date.now() }],
+  }));
+}
+
+// Extraction jobs (run by the service worker)
+export async function getJobs(): Promise<ExtractionJob[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.JOBS);
+  return result[STORAGE_KEYS.JOBS] || [];
+}
+
+export async function saveJobs(jobs: ExtractionJob[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.JOBS]: jobs });
+}
+
+// Subscribe to job changes from any extension page; returns an unsubscribe function
+export function onJobsChanged(callback: (jobs: ExtractionJob[]) => void): () => void {
+  const listener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    if (areaName === 'local' && changes[STORAGE_KEYS.JOBS]) {
+      callback(changes[STORAGE_KEYS.JOBS].newValue || []);
+    }
+  };
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+}
+
+// Exports waiting for a retry
+export async function getExportQueue(): Promise<QueuedExport[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.EXPORT_QUEUE);
+  return result[STORAGE_KEYS.EXPORT_QUEUE] || [];
+}
+
+export async function saveExportQueue(queue: QueuedExport[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.EXPORT_QUEUE]: queue });
+}
+
 export async function getExtractionByUrl(url: string): Promise<ExtractionResult | null> {
   const extractions = await getExtractions();
   return extractions.find((e) => e.sourceUrl === url) || null;
@@ -162,7 +246,7 @@ export async function getTierLimits(): Promise<TierLimits> {
   if (settings.isPro) {
     return {
       extractionsPerDay: -1,
-      historyDays: -1,
+      historyDays: settings.historyRetentionDays,
       exportIntegrations: true,
     };
   }
@@ -0,0 +1,133 @@
+/**
+ * Streaming helpers for AI responses: a Server-Sent Events reader and an
+ * incremental JSON scanner that emits each task object as soon as it closes.
+ */
+
+/**
+ * Read a `text/event-stream` response and call `onEvent` with the data of each
+ * event. Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (data: string, event?: string) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushEvent = (raw: string) => {
+    let event: string | undefined;
+    const dataLines: string[] = [];
+    for (const line of raw.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (dataLines.length > 0) onEvent(dataLines.join('\n'), event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      flushEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) flushEvent(buffer);
+}
+
+export interface TaskStreamParser {
+  push(text: string): void;
+}
+
+/**
+ * Scan streamed JSON text of the form `{"tasks": [{...}, {...}]}` and call
+ * `onTask` with each element of the tasks array once its closing brace
+ * arrives. Text before or after the JSON (e.g. markdown fences) is ignored.
+ */
+export function createTaskStreamParser(onTask: (task: unknown) => void): TaskStreamParser {
+  let buffer = '';
+  let position = 0;
+  const stack: Array<'{' | '['> = [];
+  let inString = false;
+  let escaped = false;
+  let currentString = '';
+  let lastString = '';
+  let lastKey: string | null = null;
+  let tasksDepth = -1; // stack depth of the tasks array once it opens
+  let tasksDone = false;
+  let objectStart = -1;
+
+  return {
+    push(text: string) {
+      buffer += text;
+
+      for (; position < buffer.length; position++) {
+        const c = buffer[position];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+            currentString += c;
+          } else if (c === '\\') {
+            escaped = true;
+          } else if (c === '"') {
+            inString = false;
+            lastString = currentString;
+          } else {
+            currentString += c;
+          }
+          continue;
+        }
+
+        switch (c) {
+          case '"':
+            inString = true;
+            currentString = '';
+            break;
+          case ':':
+            lastKey = lastString;
+            break;
+          case ',':
+            lastKey = null;
+            break;
+          case '{':
+            stack.push('{');
+            if (tasksDepth >= 0 && !tasksDone && stack.length === tasksDepth + 1) {
+              objectStart = position;
+            }
+            break;
+          case '[':
+            stack.push('[');
+            if (tasksDepth < 0 && lastKey === 'tasks') {
+              tasksDepth = stack.length;
+            }
+            lastKey = null;
+            break;
+          case '}':
+            if (tasksDepth >= 0 && !tasksDone && stack.length === tasksDepth + 1 && objectStart >= 0) {
+              try {
+                onTask(JSON.parse(buffer.slice(objectStart, position + 1)));
+              } catch {
+                // Malformed object; the final full parse will report it
+              }
+              objectStart = -1;
+            }
+            stack.pop();
+            break;
+          case ']':
+            if (stack.length === tasksDepth) tasksDone = true;
+            stack.pop();
+            break;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,183 @@
+import type { ExtractedTask, TaskCommitment } from '../types';
+
+// Meeting transcripts: WebVTT and SubRip captions, and the plain-text
+// exports of Zoom, Teams and Otter ("[00:01:02] Name: text", or a
+// "Name  0:05" line above what they said). Every format becomes a list of
+// speaker turns, which is what transcript mode sends to the AI.
+
+export interface TranscriptTurn {
+  speaker?: string;
+  start?: number; // Seconds into the recording
+  text: string;
+}
+
+const TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?`;
+
+// "[00:01:02] Alex: text", "00:01 Alex: text", "(1:02) text"
+const TIMED_LINE = new RegExp(String.raw`^[\[(]?(${TIME})[\])]?\s+(?:\[?([^\]\n:]{1,40}?)\]?:\s+)?(.+)$`);
+
+// A speaker and time alone on a line, with the words on the lines below:
+// "Alex Kim  0:05" (Otter, Teams) or "[Alex Kim] 10:02:15" (Zoom)
+const SPEAKER_HEADER = new RegExp(String.raw`^\[?([A-Za-z][^\[\]:\n\d]{0,40}?)\]?\s+[\[(]?(${TIME})[\])]?$`);
+
+// "Alex: text" with no time
+const SPEAKER_LINE = /^(?:- )?([A-Z][\w .'-]{0,40}):\s+(.+)$/;
+
+/** "01:02:03", "1:02" or "00:01:02.500" as seconds. */
+export function parseTimestamp(value: string): number | undefined {
+  const parts = value.trim().split(/[.,]/)[0].split(':').map(Number);
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => Number.isNaN(part))) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// Seconds as hh:mm:ss
+export function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return [h, m, s].map((part) => String(part).padStart(2, '0')).join(':');
+}
+
+// WebVTT and SubRip: a timing line per cue, then the caption text
+function parseCues(source: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const block of source.split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    if (timing < 0) continue; // WEBVTT header, NOTE and STYLE blocks
+
+    const raw = lines.slice(timing + 1).join(' ').trim();
+    const voice = raw.match(/<v(?:\.[^ >]*)? ([^>]+)>/); // WebVTT voice tag
+    const text = raw.replace(/<[^>]+>|\{\\[^}]*\}/g, '').replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    const start = parseTimestamp(lines[timing].split('-->')[0]);
+    const named = voice ? null : text.match(SPEAKER_LINE);
+    if (voice) turns.push({ speaker: voice[1].trim(), start, text });
+    else if (named) turns.push({ speaker: named[1].trim(), start, text: named[2] });
+    else turns.push({ start, text });
+  }
+  return turns;
+}
+
+function parseLines(source: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const rawLine of source.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const header = line.match(SPEAKER_HEADER);
+    if (header) {
+      turns.push({ speaker: header[1].trim(), start: parseTimestamp(header[2]), text: '' });
+      continue;
+    }
+    const timed = line.match(TIMED_LINE);
+    if (timed) {
+      turns.push({ speaker: timed[2]?.trim(), start: parseTimestamp(timed[1]), text: timed[3] });
+      continue;
+    }
+    const named = line.match(SPEAKER_LINE);
+    if (named) {
+      turns.push({ speaker: named[1].trim(), text: named[2] });
+      continue;
+    }
+
+    // Anything else continues the current turn
+    const last = turns[turns.length - 1];
+    if (last) last.text = last.text ? `${last.text} ${line}` : line;
+    else turns.push({ text: line });
+  }
+  return turns.filter((turn) => turn.text);
+}
+
+/**
+ * Split a transcript into speaker turns. Consecutive captions from the same
+ * speaker, or with no speaker of their own, are joined into one turn.
+ * Returns an empty list when the text does not look like a transcript.
+ */
+export function parseTranscript(source: string): TranscriptTurn[] {
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const parsed = text.includes('-->') ? parseCues(text) : parseLines(text);
+
+  const turns: TranscriptTurn[] = [];
+  for (const turn of parsed) {
+    const last = turns[turns.length - 1];
+    if (last && (!turn.speaker || turn.speaker === last.speaker)) {
+      last.text += ` ${turn.text}`;
+    } else {
+      turns.push({ ...turn });
+    }
+  }
+
+  // Without speakers or times this is ordinary text
+  const structured = turns.filter((turn) => turn.speaker || turn.start !== undefined);
+  return structured.length >= 2 ? turns : [];
+}
+
+// One paragraph per turn, e.g. "[00:01:02] Alex: ..."
+export function formatTranscript(turns: TranscriptTurn[]): string {
+  return turns
+    .map((turn) => {
+      const time = turn.start !== undefined ? `[${formatTimestamp(turn.start)}] ` : '';
+      return `${time}${turn.speaker ? `${turn.speaker}: ` : ''}${turn.text}`;
+    })
+    .join('\n\n');
+}
+
+// Speakers in order of first appearance
+export function transcriptSpeakers(turns: TranscriptTurn[]): string[] {
+  return [...new Set(turns.map((turn) => turn.speaker).filter((speaker): speaker is string => !!speaker))];
+}
+
+/**
+ * A link that opens the recording at a position, for players that take a
+ * start time in the URL. Other pages (Zoom, Otter) get no link; the
+ * timestamp is still shown.
+ */
+export function recordingLink(url: string, seconds: number): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+
+  const host = parsed.hostname.replace(/^(www|m)\./, '');
+  const start = Math.floor(seconds);
+  if (host === 'youtube.com' || host === 'youtu.be') {
+    parsed.searchParams.set('t', `${start}s`);
+  } else if (host === 'loom.com') {
+    parsed.searchParams.set('t', String(start));
+  } else if (host === 'vimeo.com') {
+    parsed.hash = `t=${start}s`;
+  } else if (/\.(mp4|webm|mov|m4a|mp3|wav|ogg)$/i.test(parsed.pathname)) {
+    // Media fragment, understood by the browser's own player
+    parsed.hash = `t=${start}`;
+  } else {
+    return undefined;
+  }
+  return parsed.toString();
+}
+
+/**
+ * Tidy the commitment the AI reported: match the speaker to a name from the
+ * transcript, normalise the timestamp and add a link to the recording. The
+ * speaker becomes the assignee when the AI named none, and the transcript's
+ * speakers replace the AI's guess at attendees.
+ */
+export function resolveCommitment(task: ExtractedTask, speakers: string[], recordingUrl?: string): ExtractedTask {
+  const attendees = speakers.length > 0 ? speakers : task.attendees;
+  if (!task.commitment) return { ...task, attendees };
+
+  const spoken = task.commitment.speaker.trim().toLowerCase();
+  const speaker = speakers.find((name) => name.toLowerCase() === spoken) || task.commitment.speaker.trim();
+  const seconds = task.commitment.timestamp ? parseTimestamp(task.commitment.timestamp) : undefined;
+
+  const commitment: TaskCommitment = {
+    speaker,
+    timestamp: seconds !== undefined ? formatTimestamp(seconds) : undefined,
+    quote: task.commitment.quote || undefined,
+    url: seconds !== undefined && recordingUrl ? recordingLink(recordingUrl, seconds) : undefined,
+  };
+  return { ...task, assignee: task.assignee || speaker, attendees, commitment };
+}
@@ -0,0 +1,14 @@
+// Offscreen document that gives the service worker access to the clipboard
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message.type === 'OFFSCREEN_COPY') {
+    // navigator.clipboard needs a focused document, which offscreen pages never are
+    const textarea = document.getElementById('clipboard') as HTMLTextAreaElement;
+    textarea.value = message.text;
+    textarea.select();
+    const copied = document.execCommand('copy');
+    textarea.value = '';
+    sendResponse(copied ? { success: true } : { error: 'Could not copy to clipboard' });
+    return true;
+  }
+});
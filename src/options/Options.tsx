@@ -1,23 +1,109 @@
 import React, { useState, useEffect } from 'react';
-import type { Settings, HistoryEntry, AnalyticsData, ExtractionRule, TaskCategory, TaskPriority } from '../types';
+import type {
+  Settings,
+  HistoryEntry,
+  ExtractionResult,
+  AnalyticsData,
+  ExtractionRule,
+  TaskCategory,
+  TaskPriority,
+  AIProviderConfig,
+  AIAuthScheme,
+  InboxItem,
+  InboxFilter,
+  InboxStatus,
+  InboxDueFilter,
+  ExportDestination,
+} from '../types';
 import {
+  AUTH_SCHEME_LABELS,
   EXTRACTION_MODE_LABELS,
   CATEGORY_LABELS,
+  CATEGORY_ICONS,
   PRIORITY_LABELS,
-  EXPORT_LABELS,
+  INBOX_STATUS_LABELS,
+  INBOX_DUE_FILTER_LABELS,
 } from '../types';
-import { getSettings, saveSettings, getHistory, clearHistory, getAnalytics, clearAnalytics, generateId, getDeviceId } from '../lib/storage';
+import { getSettings, saveSettings, getHistory, clearHistory, getExtractions, getAnalytics, clearAnalytics, generateId, getDeviceId, canExtract } from '../lib/storage';
+import { isValidPattern } from '../lib/rules';
+import {
+  getProviders,
+  getProvider,
+  getProviderApiKey,
+  createCustomProvider,
+  fetchProviderModels,
+  requestProviderPermission,
+  validateProviderSettings,
+} from '../lib/providers';
+import { parseFile, SUPPORTED_FILE_TYPES } from '../lib/file-parsers';
+import {
+  getInboxItems,
+  updateInboxItems,
+  snoozeInboxItems,
+  deleteInboxItems,
+  filterInboxItems,
+  getInboxAssignees,
+} from '../lib/inbox';
+import { exportTasks } from '../lib/export';
+import {
+  EXPORTERS,
+  getIntegrations,
+  exporterLabel,
+  exporterName,
+  type Exporter,
+  type ExporterField,
+  type ExporterSettingKey,
+  type PickerOption,
+} from '../lib/exporters';
+import {
+  RETENTION_DAY_OPTIONS,
+  getRetentionPolicy,
+  describeRetention,
+  estimateBytes,
+  pruneStorage,
+} from '../lib/retention';
+
+type Tab = 'general' | 'inbox' | 'integrations' | 'rules' | 'analytics' | 'history' | 'license';
+
+const TABS: Tab[] = ['general', 'inbox', 'integrations', 'rules', 'analytics', 'history', 'license'];
+
+// Other pages link straight to a tab with options.html#<tab>
+function initialTab(): Tab {
+  const hash = window.location.hash.slice(1) as Tab;
+  return TABS.includes(hash) ? hash : 'general';
+}
 
-type Tab = 'general' | 'integrations' | 'rules' | 'analytics' | 'history' | 'license';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// chrome.storage.local holds 10 MB without the unlimitedStorage permission
+const STORAGE_BUDGET_OPTIONS = [1, 2, 5, 8];
 
 const Options: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<Tab>('general');
+  const [activeTab, setActiveTab] = useState<Tab>(initialTab);
   const [settings, setSettings] = useState<Settings | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [extractions, setExtractions] = useState<Record<string, ExtractionResult>>({});
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [editingRule, setEditingRule] = useState<ExtractionRule | null>(null);
+  const [loadedModels, setLoadedModels] = useState<Record<string, string[]>>({});
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [permissionWarning, setPermissionWarning] = useState<string | null>(null);
+  const [inboxItems, setInboxItems] = useState<InboxItem[]>([]);
+  const [inboxFilter, setInboxFilter] = useState<InboxFilter>({
+    status: 'open',
+    category: 'all',
+    priority: 'all',
+    assignee: 'all',
+    due: 'all',
+  });
+  const [selectedInboxIds, setSelectedInboxIds] = useState<string[]>([]);
+  const [inboxMessage, setInboxMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [fileMessage, setFileMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [connectionResults, setConnectionResults] = useState<Partial<Record<ExportDestination, { text: string; error?: boolean }>>>({});
+  const [testingConnection, setTestingConnection] = useState<ExportDestination | null>(null);
+  const [pickers, setPickers] = useState<Partial<Record<ExporterSettingKey, { options?: PickerOption[]; error?: string }>>>({});
 
   useEffect(() => {
     loadData();
@@ -34,19 +120,36 @@ const Options: React.FC = () => {
     return () => clearInterval(interval);
   }, [settings?.isPro]);
 
+  // Bulk actions only apply to tasks the user can see
+  useEffect(() => {
+    setSelectedInboxIds([]);
+  }, [inboxFilter]);
+
   async function loadData() {
-    const [loadedSettings, loadedHistory, loadedAnalytics] = await Promise.all([
+    const [loadedSettings, loadedHistory, loadedExtractions, loadedAnalytics, loadedInbox] = await Promise.all([
       getSettings(),
       getHistory(),
+      getExtractions(),
       getAnalytics(),
+      getInboxItems(),
     ]);
     setSettings(loadedSettings);
     setHistory(loadedHistory);
+    setExtractions(Object.fromEntries(loadedExtractions.map((e) => [e.id, e])));
     setAnalytics(loadedAnalytics);
+    setInboxItems(loadedInbox);
   }
 
   async function handleSave() {
     if (!settings) return;
+
+    // Self-hosted and local endpoints need host access; request it while we still have the click gesture
+    const provider = getProvider(settings);
+    if (provider) {
+      const granted = await requestProviderPermission(provider);
+      setPermissionWarning(granted ? null : `Access to ${provider.baseUrl} was not granted. Requests to ${provider.name} may fail.`);
+    }
+
     setSaving(true);
     await saveSettings(settings);
     setSaving(false);
@@ -58,6 +161,180 @@ const Options: React.FC = () => {
     setSettings((prev) => (prev ? { ...prev, [key]: value } : prev));
   }
 
+  function updateCustomProvider(id: string, changes: Partial<AIProviderConfig>) {
+    setSettings((prev) => prev ? {
+      ...prev,
+      customProviders: prev.customProviders.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+    } : prev);
+  }
+
+  function handleAddProvider() {
+    const provider = createCustomProvider();
+    setSettings((prev) => prev ? {
+      ...prev,
+      customProviders: [...prev.customProviders, provider],
+      aiProvider: provider.id,
+    } : prev);
+  }
+
+  function handleRemoveProvider(id: string) {
+    if (!confirm('Remove this endpoint?')) return;
+    setSettings((prev) => prev ? {
+      ...prev,
+      customProviders: prev.customProviders.filter((p) => p.id !== id),
+      aiProvider: prev.aiProvider === id ? 'openai' : prev.aiProvider,
+    } : prev);
+  }
+
+  async function handleLoadModels() {
+    if (!settings) return;
+    const provider = getProvider(settings);
+    if (!provider) return;
+    setModelError(null);
+    try {
+      // Fetching from a new host needs its permission first
+      await requestProviderPermission(provider);
+      const models = await fetchProviderModels(provider, getProviderApiKey(settings, provider));
+      if (models.length === 0) {
+        setModelError('The endpoint did not list any models');
+        return;
+      }
+      setLoadedModels((prev) => ({ ...prev, [provider.id]: models }));
+      if (!provider.builtIn) {
+        updateCustomProvider(provider.id, { models, defaultModel: provider.defaultModel || models[0] });
+      }
+    } catch (err) {
+      setModelError(err instanceof Error ? err.message : 'Failed to load models');
+    }
+  }
+
+  async function loadPicker(field: ExporterField, current: Settings) {
+    if (!field.loadOptions) return;
+    try {
+      const options = await field.loadOptions(current);
+      setPickers((prev) => ({ ...prev, [field.key]: { options } }));
+    } catch (err) {
+      setPickers((prev) => ({ ...prev, [field.key]: { error: err instanceof Error ? err.message : 'Could not load choices' } }));
+    }
+  }
+
+  // Check the credentials as typed, before they are saved, then fill the pickers
+  async function handleTestConnection(exporter: Exporter) {
+    if (!settings || !exporter.testConnection) return;
+    setTestingConnection(exporter.id);
+    try {
+      const text = await exporter.testConnection(settings);
+      setConnectionResults((prev) => ({ ...prev, [exporter.id]: { text } }));
+      // In field order, so a board is listed before the lists that depend on it
+      for (const field of exporter.fields) {
+        await loadPicker(field, settings);
+      }
+    } catch (err) {
+      const text = err instanceof Error ? err.message : 'Connection failed';
+      setConnectionResults((prev) => ({ ...prev, [exporter.id]: { text, error: true } }));
+    }
+    setTestingConnection(null);
+  }
+
+  // Choosing a board clears the list picked from the previous board and reloads the choices
+  async function handlePickerChange(exporter: Exporter, field: ExporterField, value: string) {
+    if (!settings) return;
+    let next: Settings = { ...settings, [field.key]: value };
+    const dependents = exporter.fields.filter((f) => f.dependsOn === field.key);
+    dependents.forEach((dependent) => {
+      next = { ...next, [dependent.key]: '' };
+    });
+    setSettings(next);
+    for (const dependent of dependents) {
+      await loadPicker(dependent, next);
+    }
+  }
+
+  async function refreshInbox() {
+    setInboxItems(await getInboxItems());
+    setSelectedInboxIds([]);
+  }
+
+  function toggleInboxSelection(id: string) {
+    setSelectedInboxIds((prev) => (prev.includes(id) ? prev.filter((i) => i !== id) : [...prev, id]));
+  }
+
+  async function handleInboxStatus(ids: string[], status: InboxStatus) {
+    await updateInboxItems(ids, { status, snoozedUntil: undefined });
+    await refreshInbox();
+  }
+
+  async function handleInboxSnooze(ids: string[], days: number) {
+    await snoozeInboxItems(ids, Date.now() + days * DAY_MS);
+    await refreshInbox();
+  }
+
+  async function handleInboxDelete(ids: string[]) {
+    if (!confirm(`Delete ${ids.length} task${ids.length !== 1 ? 's' : ''} from the inbox?`)) return;
+    await deleteInboxItems(ids);
+    await refreshInbox();
+  }
+
+  async function handleInboxExport(ids: string[]) {
+    if (!settings) return;
+    const items = inboxItems.filter((item) => ids.includes(item.id)).map((item) => ({ ...item, selected: true }));
+    try {
+      const summary = await exportTasks(settings.defaultExport, items, settings, 'Task Inbox');
+      setInboxMessage({ text: summary.message, error: summary.exported < summary.total });
+    } catch (err) {
+      setInboxMessage({ text: err instanceof Error ? err.message : 'Export failed', error: true });
+    }
+    // Sync records are stored on the items even when the export fails partway
+    await refreshInbox();
+    setTimeout(() => setInboxMessage(null), 4000);
+  }
+
+  // Review a past extraction in the popup UI, opened as a tab
+  function openExtraction(id: string) {
+    chrome.tabs.create({ url: chrome.runtime.getURL(`popup.html?extraction=${encodeURIComponent(id)}`) });
+  }
+
+  // Retention settings apply immediately so the list reflects what is kept
+  async function handleRetentionChange(changes: Pick<Partial<Settings>, 'historyRetentionDays' | 'storageBudgetMb'>) {
+    if (!settings) return;
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    await saveSettings(changes);
+    await pruneStorage(next);
+    const [loadedHistory, loadedExtractions] = await Promise.all([getHistory(), getExtractions()]);
+    setHistory(loadedHistory);
+    setExtractions(Object.fromEntries(loadedExtractions.map((e) => [e.id, e])));
+  }
+
+  // Files are read here and extracted by the service worker, which notifies when done
+  async function handleExtractFile(file: File) {
+    if (!settings) return;
+    setFileMessage({ text: `Reading ${file.name}…` });
+    try {
+      const usage = await canExtract();
+      if (!usage.allowed) throw new Error('Daily limit reached. Upgrade to Pro for unlimited extractions.');
+      const providerError = validateProviderSettings(settings);
+      if (providerError) throw new Error(providerError);
+
+      const parsed = await parseFile(file);
+      const response = await chrome.runtime.sendMessage({
+        type: 'START_EXTRACTION_JOB',
+        payload: {
+          content: parsed.content,
+          sourceUrl: parsed.sourceUrl,
+          sourceTitle: parsed.title,
+          // Transcript mode is Pro, like the other specialised modes
+          mode: parsed.suggestedMode && settings.isPro ? parsed.suggestedMode : settings.defaultExtractionMode,
+          notify: true,
+        },
+      });
+      if (!response?.jobId) throw new Error(response?.error || 'Could not start extraction');
+      setFileMessage({ text: `Extracting tasks from ${file.name}. You'll get a notification when they're ready.` });
+    } catch (err) {
+      setFileMessage({ text: err instanceof Error ? err.message : 'Extraction failed', error: true });
+    }
+  }
+
   async function handleClearHistory() {
     if (confirm('Are you sure you want to clear all extraction history?')) {
       await clearHistory();
@@ -90,6 +367,8 @@ const Options: React.FC = () => {
     );
   }
 
+  const selectedProvider = getProvider(settings);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-4xl mx-auto py-8 px-4">
@@ -102,7 +381,7 @@ const Options: React.FC = () => {
 
         {/* Tabs */}
         <div className="flex border-b border-gray-200 mb-6 overflow-x-auto">
-          {(['general', 'integrations', 'rules', 'analytics', 'history', 'license'] as Tab[]).map((tab) => (
+          {TABS.map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -129,11 +408,12 @@ const Options: React.FC = () => {
                   </label>
                   <select
                     value={settings.aiProvider}
-                    onChange={(e) => updateSettings('aiProvider', e.target.value as 'openai' | 'anthropic')}
+                    onChange={(e) => updateSettings('aiProvider', e.target.value)}
                     className="input"
                   >
-                    <option value="openai">OpenAI (GPT-4)</option>
-                    <option value="anthropic">Anthropic (Claude)</option>
+                    {getProviders(settings).map((provider) => (
+                      <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -188,6 +468,126 @@ const Options: React.FC = () => {
                     </p>
                   </div>
                 )}
+
+                {selectedProvider?.id === 'ollama' && (
+                  <p className="text-xs text-gray-500">
+                    Ollama must accept requests from the extension. Start it with{' '}
+                    <code className="px-1 bg-gray-100 rounded">OLLAMA_ORIGINS=chrome-extension://*</code>.
+                    Page content never leaves your machine.
+                  </p>
+                )}
+
+                {/* Custom OpenAI-compatible endpoint */}
+                {selectedProvider && !selectedProvider.builtIn && (
+                  <div className="space-y-4 p-4 border border-gray-200 rounded-lg">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Name
+                      </label>
+                      <input
+                        type="text"
+                        value={selectedProvider.name}
+                        onChange={(e) => updateCustomProvider(selectedProvider.id, { name: e.target.value })}
+                        placeholder="Team gateway"
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Base URL
+                      </label>
+                      <input
+                        type="text"
+                        value={selectedProvider.baseUrl}
+                        onChange={(e) => updateCustomProvider(selectedProvider.id, { baseUrl: e.target.value })}
+                        placeholder="https://llm.example.com/v1"
+                        className="input"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        The URL that <code>/chat/completions</code> and <code>/models</code> are served under
+                      </p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Authentication
+                      </label>
+                      <select
+                        value={selectedProvider.authScheme}
+                        onChange={(e) => updateCustomProvider(selectedProvider.id, { authScheme: e.target.value as AIAuthScheme })}
+                        className="input"
+                      >
+                        {(Object.keys(AUTH_SCHEME_LABELS) as AIAuthScheme[]).map((scheme) => (
+                          <option key={scheme} value={scheme}>{AUTH_SCHEME_LABELS[scheme]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {selectedProvider.authScheme !== 'none' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          API Key
+                        </label>
+                        <input
+                          type="password"
+                          value={selectedProvider.apiKey || ''}
+                          onChange={(e) => updateCustomProvider(selectedProvider.id, { apiKey: e.target.value })}
+                          className="input"
+                        />
+                      </div>
+                    )}
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        id="structuredOutput"
+                        checked={selectedProvider.structuredOutput !== false}
+                        onChange={(e) => updateCustomProvider(selectedProvider.id, { structuredOutput: e.target.checked })}
+                        className="checkbox"
+                      />
+                      <label htmlFor="structuredOutput" className="text-sm text-gray-700">
+                        Endpoint supports JSON schema output (<code>response_format</code>)
+                      </label>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveProvider(selectedProvider.id)}
+                      className="text-sm text-red-500 hover:underline"
+                    >
+                      Remove endpoint
+                    </button>
+                  </div>
+                )}
+
+                {/* Model picker */}
+                {selectedProvider && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Model
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        list="provider-models"
+                        value={settings.providerModels[selectedProvider.id] ?? selectedProvider.defaultModel}
+                        onChange={(e) => updateSettings('providerModels', { ...settings.providerModels, [selectedProvider.id]: e.target.value })}
+                        placeholder="Model name"
+                        className="input"
+                      />
+                      <datalist id="provider-models">
+                        {[...new Set([...selectedProvider.models, ...(loadedModels[selectedProvider.id] || [])])].map((model) => (
+                          <option key={model} value={model} />
+                        ))}
+                      </datalist>
+                      {selectedProvider.apiFormat === 'openai' && (
+                        <button onClick={handleLoadModels} className="btn-secondary text-sm whitespace-nowrap">
+                          Load models
+                        </button>
+                      )}
+                    </div>
+                    {modelError && <p className="text-xs text-red-500 mt-1">{modelError}</p>}
+                  </div>
+                )}
+
+                <button onClick={handleAddProvider} className="text-sm text-primary-500 hover:underline">
+                  + Add OpenAI-compatible endpoint
+                </button>
               </div>
             </div>
 
@@ -218,21 +618,30 @@ const Options: React.FC = () => {
                     onChange={(e) => updateSettings('defaultExport', e.target.value as Settings['defaultExport'])}
                     className="input"
                   >
-                    <option value="clipboard">Plain Text (Clipboard)</option>
-                    <option value="markdown">Markdown</option>
-                    {settings.isPro && <option value="csv">CSV</option>}
-                    {settings.isPro && <option value="json">JSON</option>}
-                    {settings.isPro && <option value="notion">Notion</option>}
-                    {settings.isPro && <option value="todoist">Todoist</option>}
-                    {settings.isPro && <option value="clickup">ClickUp</option>}
-                    {settings.isPro && <option value="asana">Asana</option>}
-                    {settings.isPro && <option value="linear">Linear</option>}
-                    {settings.isPro && <option value="trello">Trello</option>}
-                    {settings.isPro && <option value="jira">Jira</option>}
-                    {settings.isPro && <option value="slack">Slack</option>}
+                    {EXPORTERS.filter((exporter) => !exporter.pro || settings.isPro).map((exporter) => (
+                      <option key={exporter.id} value={exporter.id}>{exporter.label}</option>
+                    ))}
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Calendar (.ics) Export
+                  </label>
+                  <select
+                    value={settings.icsComponent}
+                    onChange={(e) => updateSettings('icsComponent', e.target.value as Settings['icsComponent'])}
+                    className="input"
+                    disabled={!settings.isPro}
+                  >
+                    <option value="VTODO">To-dos (VTODO)</option>
+                    <option value="VEVENT">All-day events on the due date (VEVENT)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Some calendars, including Google Calendar, ignore to-dos; export events for those. Events skip tasks without a due date.
+                  </p>
+                </div>
+
                 <div className="flex items-center gap-3">
                   <input
                     type="checkbox"
@@ -297,9 +706,28 @@ const Options: React.FC = () => {
                     <option value="general">General (All pages)</option>
                     {settings.isPro && <option value="email">Email (Gmail, Outlook)</option>}
                     {settings.isPro && <option value="meeting">Meeting Notes</option>}
+                    {settings.isPro && <option value="transcript">Transcript (Zoom, Teams, Otter)</option>}
                   </select>
                   <p className="text-xs text-gray-500 mt-1">
-                    Email and Meeting modes are Pro features with specialized extraction
+                    Email, Meeting and Transcript modes are Pro features with specialized extraction
+                  </p>
+                </div>
+
+                <div>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="autoDetectMode"
+                      checked={settings.autoDetectMode}
+                      onChange={(e) => updateSettings('autoDetectMode', e.target.checked)}
+                      className="checkbox"
+                    />
+                    <label htmlFor="autoDetectMode" className="text-sm text-gray-700">
+                      Automatically use the suggested mode and template
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 ml-7">
+                    The popup checks the page's address, headings and opening text for signs of an email or meeting notes. Nothing is sent to the AI for this.
                   </p>
                 </div>
               </div>
@@ -350,7 +778,7 @@ const Options: React.FC = () => {
                   <div>
                     <h3 className="font-medium text-amber-800">Pro Feature</h3>
                     <p className="text-sm text-amber-700 mt-1">
-                      Export integrations with Notion, Todoist, ClickUp, Asana, Linear, Trello, Jira, and Slack are available with a Pro license.
+                      Export integrations with {getIntegrations().filter((exporter) => exporter.pro).map((exporter) => exporter.name).join(', ')} are available with a Pro license.
                     </p>
                     <button
                       onClick={() => setActiveTab('license')}
@@ -363,409 +791,89 @@ const Options: React.FC = () => {
               </div>
             )}
 
-            {/* Notion */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">📓</span>
-                <h2 className="text-lg font-semibold text-gray-900">Notion</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Integration Token
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.notionApiKey}
-                    onChange={(e) => updateSettings('notionApiKey', e.target.value)}
-                    placeholder="secret_..."
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Create an integration at{' '}
-                    <a
-                      href="https://www.notion.so/my-integrations"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Notion Integrations
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Database ID
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.notionDatabaseId}
-                    onChange={(e) => updateSettings('notionDatabaseId', e.target.value)}
-                    placeholder="abc123..."
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    The ID of the database where tasks will be added
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* Todoist */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">✅</span>
-                <h2 className="text-lg font-semibold text-gray-900">Todoist</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    API Token
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.todoistApiKey}
-                    onChange={(e) => updateSettings('todoistApiKey', e.target.value)}
-                    placeholder="Your Todoist API token"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Find your token in{' '}
-                    <a
-                      href="https://todoist.com/app/settings/integrations/developer"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Todoist Settings → Integrations
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Project ID (Optional)
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.todoistProjectId}
-                    onChange={(e) => updateSettings('todoistProjectId', e.target.value)}
-                    placeholder="Leave empty for Inbox"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* ClickUp */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">📋</span>
-                <h2 className="text-lg font-semibold text-gray-900">ClickUp</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    API Token
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.clickupApiKey}
-                    onChange={(e) => updateSettings('clickupApiKey', e.target.value)}
-                    placeholder="pk_..."
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Get your token from{' '}
-                    <a
-                      href="https://app.clickup.com/settings/apps"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      ClickUp Settings → Apps
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    List ID
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.clickupListId}
-                    onChange={(e) => updateSettings('clickupListId', e.target.value)}
-                    placeholder="The list where tasks will be added"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                </div>
-              </div>
-            </div>
-
-            {/* Asana */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">🎯</span>
-                <h2 className="text-lg font-semibold text-gray-900">Asana</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Personal Access Token
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.asanaApiKey}
-                    onChange={(e) => updateSettings('asanaApiKey', e.target.value)}
-                    placeholder="Your Asana access token"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Create a token in{' '}
-                    <a
-                      href="https://app.asana.com/0/my-apps"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Asana Developer Console
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Project ID
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.asanaProjectId}
-                    onChange={(e) => updateSettings('asanaProjectId', e.target.value)}
-                    placeholder="The project where tasks will be added"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Find the project ID in the URL: app.asana.com/0/<strong>PROJECT_ID</strong>/...
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* Linear */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">⚡</span>
-                <h2 className="text-lg font-semibold text-gray-900">Linear</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    API Key
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.linearApiKey}
-                    onChange={(e) => updateSettings('linearApiKey', e.target.value)}
-                    placeholder="lin_api_..."
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Create an API key in{' '}
-                    <a
-                      href="https://linear.app/settings/api"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Linear Settings → API
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Team ID
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.linearTeamId}
-                    onChange={(e) => updateSettings('linearTeamId', e.target.value)}
-                    placeholder="The team where issues will be created"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Find your team ID in Linear → Settings → Team → General
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* Trello */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">📝</span>
-                <h2 className="text-lg font-semibold text-gray-900">Trello</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    API Key
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.trelloApiKey}
-                    onChange={(e) => updateSettings('trelloApiKey', e.target.value)}
-                    placeholder="Your Trello API key"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Get your API key from{' '}
-                    <a
-                      href="https://trello.com/power-ups/admin"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Trello Power-Up Admin
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Token
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.trelloToken}
-                    onChange={(e) => updateSettings('trelloToken', e.target.value)}
-                    placeholder="Your Trello token"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    List ID
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.trelloListId}
-                    onChange={(e) => updateSettings('trelloListId', e.target.value)}
-                    placeholder="The list where cards will be created"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Find the list ID in the URL when viewing a list
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* Jira */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">🔷</span>
-                <h2 className="text-lg font-semibold text-gray-900">Jira</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Domain
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.jiraDomain}
-                    onChange={(e) => updateSettings('jiraDomain', e.target.value)}
-                    placeholder="your-company.atlassian.net"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    API Token
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.jiraApiToken}
-                    onChange={(e) => updateSettings('jiraApiToken', e.target.value)}
-                    placeholder="Your Jira API token"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Create a token at{' '}
-                    <a
-                      href="https://id.atlassian.com/manage-profile/security/api-tokens"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Atlassian API Tokens
-                    </a>
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Project Key
-                  </label>
-                  <input
-                    type="text"
-                    value={settings.jiraProjectKey}
-                    onChange={(e) => updateSettings('jiraProjectKey', e.target.value)}
-                    placeholder="e.g., PROJ"
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    The project key (e.g., PROJ from PROJ-123)
-                  </p>
-                </div>
-              </div>
-            </div>
-
-            {/* Slack */}
-            <div className={`card ${!settings.isPro ? 'opacity-60' : ''}`}>
-              <div className="flex items-center gap-3 mb-4">
-                <span className="text-2xl">💬</span>
-                <h2 className="text-lg font-semibold text-gray-900">Slack</h2>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Webhook URL
-                  </label>
-                  <input
-                    type="password"
-                    value={settings.slackWebhookUrl}
-                    onChange={(e) => updateSettings('slackWebhookUrl', e.target.value)}
-                    placeholder="https://hooks.slack.com/services/..."
-                    className="input"
-                    disabled={!settings.isPro}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Create an incoming webhook at{' '}
-                    <a
-                      href="https://api.slack.com/apps"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary-500 hover:underline"
-                    >
-                      Slack Apps
-                    </a>
-                  </p>
+            {getIntegrations().map((exporter) => {
+              const result = connectionResults[exporter.id];
+              const locked = exporter.pro && !settings.isPro;
+              return (
+                <div key={exporter.id} className={`card ${locked ? 'opacity-60' : ''}`}>
+                  <div className="flex items-center gap-3 mb-4">
+                    <span className="text-2xl">{exporter.icon}</span>
+                    <h2 className="text-lg font-semibold text-gray-900">{exporter.name}</h2>
+                  </div>
+                  <div className="space-y-4">
+                    {exporter.fields.map((field) => (
+                      <div key={field.key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {field.label}
+                        </label>
+                        {pickers[field.key]?.options ? (
+                          <select
+                            value={settings[field.key]}
+                            onChange={(e) => handlePickerChange(exporter, field, e.target.value)}
+                            className="input"
+                            disabled={locked}
+                          >
+                            <option value="">Select…</option>
+                            {settings[field.key] && !pickers[field.key]!.options!.some((o) => o.value === settings[field.key]) && (
+                              <option value={settings[field.key]}>{settings[field.key]} (not found)</option>
+                            )}
+                            {pickers[field.key]!.options!.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type={field.type}
+                            value={settings[field.key]}
+                            onChange={(e) => updateSettings(field.key, e.target.value)}
+                            placeholder={field.placeholder}
+                            className="input"
+                            disabled={locked}
+                          />
+                        )}
+                        {pickers[field.key]?.error && (
+                          <p className="text-xs text-red-600 mt-1">{pickers[field.key]!.error}</p>
+                        )}
+                        {(field.help || field.helpLink) && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {field.help}
+                            {field.helpLink && (
+                              <>
+                                {' '}
+                                <a
+                                  href={field.helpLink.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-primary-500 hover:underline"
+                                >
+                                  {field.helpLink.text}
+                                </a>
+                              </>
+                            )}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                    {exporter.testConnection && (
+                      <div className="flex items-center gap-3">
+                        <button
+                          onClick={() => handleTestConnection(exporter)}
+                          disabled={locked || testingConnection === exporter.id}
+                          className="btn-secondary text-sm disabled:opacity-50"
+                        >
+                          {testingConnection === exporter.id ? 'Testing...' : 'Test connection'}
+                        </button>
+                        {result && (
+                          <span className={`text-sm ${result.error ? 'text-red-600' : 'text-green-600'}`}>
+                            {result.error ? '✗' : '✓'} {result.text}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </div>
+              );
+            })}
           </div>
         )}
 
@@ -815,7 +923,7 @@ const Options: React.FC = () => {
               </div>
 
               <p className="text-sm text-gray-600 mb-4">
-                Create rules to automatically prioritize or filter tasks based on keywords.
+                Create rules to automatically prioritize or filter tasks based on keywords or patterns. Rules are applied to every extracted task.
               </p>
 
               {settings.extractionRules.length === 0 ? (
@@ -938,6 +1046,16 @@ const Options: React.FC = () => {
                         className="input"
                         placeholder={editingRule.type === 'pattern' ? '^URGENT:.*' : 'urgent, asap, critical'}
                       />
+                      {editingRule.type === 'pattern' && editingRule.value && !isValidPattern(editingRule.value) && (
+                        <p className="text-xs text-red-500 mt-1">
+                          Invalid regular expression
+                        </p>
+                      )}
+                      {editingRule.type === 'pattern' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Matched case-insensitively against each task's title, description, and context
+                        </p>
+                      )}
                     </div>
 
                     {editingRule.type !== 'ignore' && (
@@ -1000,6 +1118,7 @@ const Options: React.FC = () => {
                         updateSettings('extractionRules', updatedRules);
                         setEditingRule(null);
                       }}
+                      disabled={editingRule.type === 'pattern' && !isValidPattern(editingRule.value)}
                       className="btn-primary"
                     >
                       Save Rule
@@ -1134,16 +1253,16 @@ const Options: React.FC = () => {
                 {/* Export Destinations */}
                 <div className="card mb-6">
                   <h3 className="text-lg font-semibold text-gray-900 mb-4">Export Destinations</h3>
-                  {Object.values(analytics.exportsByDestination).every((v) => v === 0) ? (
+                  {EXPORTERS.every((exporter) => !analytics.exportsByDestination[exporter.id]) ? (
                     <p className="text-gray-500 text-sm">No exports yet</p>
                   ) : (
                     <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                      {Object.entries(analytics.exportsByDestination)
-                        .filter(([, count]) => count > 0)
-                        .sort(([, a], [, b]) => b - a)
-                        .map(([destination, count]) => (
-                          <div key={destination} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                            <span className="text-sm text-gray-700">{EXPORT_LABELS[destination as keyof typeof EXPORT_LABELS] || destination}</span>
+                      {EXPORTERS.map((exporter) => ({ exporter, count: analytics.exportsByDestination[exporter.id] || 0 }))
+                        .filter(({ count }) => count > 0)
+                        .sort((a, b) => b.count - a.count)
+                        .map(({ exporter, count }) => (
+                          <div key={exporter.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                            <span className="text-sm text-gray-700">{exporter.label}</span>
                             <span className="text-sm font-medium text-gray-900">{count}</span>
                           </div>
                         ))}
@@ -1200,43 +1319,330 @@ const Options: React.FC = () => {
           </div>
         )}
 
+        {/* Inbox Tab */}
+        {activeTab === 'inbox' && (() => {
+          const visibleItems = filterInboxItems(inboxItems, inboxFilter);
+          const assignees = getInboxAssignees(inboxItems);
+          const today = new Date().toISOString().split('T')[0];
+          const allVisibleSelected = visibleItems.length > 0 && visibleItems.every((item) => selectedInboxIds.includes(item.id));
+
+          return (
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Task Inbox</h2>
+                  <p className="text-sm text-gray-500">
+                    Tasks from every extraction, kept until you clear them.
+                  </p>
+                </div>
+                <div className="flex gap-2 text-xs">
+                  {(Object.keys(INBOX_STATUS_LABELS) as InboxStatus[]).map((status) => (
+                    <span key={status} className="badge bg-gray-100 text-gray-700">
+                      {INBOX_STATUS_LABELS[status]}: {inboxItems.filter((item) => item.status === status).length}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {/* Filters */}
+              <div className="grid grid-cols-5 gap-2 mb-4">
+                <select
+                  value={inboxFilter.status}
+                  onChange={(e) => setInboxFilter({ ...inboxFilter, status: e.target.value as InboxFilter['status'] })}
+                  className="input text-sm"
+                >
+                  <option value="all">All statuses</option>
+                  {Object.entries(INBOX_STATUS_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={inboxFilter.category}
+                  onChange={(e) => setInboxFilter({ ...inboxFilter, category: e.target.value as InboxFilter['category'] })}
+                  className="input text-sm"
+                >
+                  <option value="all">All categories</option>
+                  {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={inboxFilter.priority}
+                  onChange={(e) => setInboxFilter({ ...inboxFilter, priority: e.target.value as InboxFilter['priority'] })}
+                  className="input text-sm"
+                >
+                  <option value="all">All priorities</option>
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <select
+                  value={inboxFilter.assignee}
+                  onChange={(e) => setInboxFilter({ ...inboxFilter, assignee: e.target.value })}
+                  className="input text-sm"
+                >
+                  <option value="all">All assignees</option>
+                  {assignees.map((assignee) => (
+                    <option key={assignee} value={assignee}>{assignee}</option>
+                  ))}
+                </select>
+                <select
+                  value={inboxFilter.due}
+                  onChange={(e) => setInboxFilter({ ...inboxFilter, due: e.target.value as InboxDueFilter })}
+                  className="input text-sm"
+                >
+                  {Object.entries(INBOX_DUE_FILTER_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Bulk actions */}
+              <div className="flex items-center justify-between mb-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={(e) => setSelectedInboxIds(e.target.checked ? visibleItems.map((item) => item.id) : [])}
+                    className="checkbox"
+                  />
+                  {selectedInboxIds.length > 0 ? `${selectedInboxIds.length} selected` : `${visibleItems.length} task${visibleItems.length !== 1 ? 's' : ''}`}
+                </label>
+                {selectedInboxIds.length > 0 && (
+                  <div className="flex gap-2">
+                    <button onClick={() => handleInboxStatus(selectedInboxIds, 'done')} className="btn-secondary text-sm">
+                      Mark done
+                    </button>
+                    <button onClick={() => handleInboxSnooze(selectedInboxIds, 1)} className="btn-secondary text-sm">
+                      Snooze 1 day
+                    </button>
+                    <button onClick={() => handleInboxExport(selectedInboxIds)} className="btn-primary text-sm">
+                      {exporterLabel(settings.defaultExport)}
+                    </button>
+                    <button onClick={() => handleInboxDelete(selectedInboxIds)} className="text-red-500 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {inboxMessage && (
+                <div className={`mb-3 p-2 text-sm rounded-lg ${inboxMessage.error ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                  {inboxMessage.text}
+                </div>
+              )}
+
+              {visibleItems.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">
+                  {inboxItems.length === 0 ? 'No tasks yet. Extracted tasks will collect here.' : 'No tasks match these filters'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {visibleItems.map((item) => (
+                    <div key={item.id} className="p-3 border border-gray-200 rounded-lg flex items-start gap-3 hover:bg-gray-50">
+                      <input
+                        type="checkbox"
+                        checked={selectedInboxIds.includes(item.id)}
+                        onChange={() => toggleInboxSelection(item.id)}
+                        className="checkbox mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className={`font-medium ${item.status === 'done' ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                          <span title={CATEGORY_LABELS[item.category]}>{CATEGORY_ICONS[item.category]}</span> {item.title}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                          <span className={`badge ${
+                            item.priority === 'high' ? 'bg-red-100 text-red-700' :
+                            item.priority === 'medium' ? 'bg-amber-100 text-amber-700' :
+                            'bg-green-100 text-green-700'
+                          }`}>
+                            {PRIORITY_LABELS[item.priority]}
+                          </span>
+                          {item.assignee && <span>👤 {item.assignee}</span>}
+                          {item.dueDate && (
+                            <span className={item.dueDate < today && item.status === 'open' ? 'text-red-600' : ''}>📅 {item.dueDate}</span>
+                          )}
+                          {item.status === 'snoozed' && item.snoozedUntil && (
+                            <span>💤 until {new Date(item.snoozedUntil).toLocaleDateString()}</span>
+                          )}
+                          {item.status === 'exported' && item.exportedTo && (
+                            <span>↗ {exporterLabel(item.exportedTo)}</span>
+                          )}
+                          <a href={item.sourceUrl} target="_blank" rel="noreferrer" className="truncate max-w-xs text-primary-600 hover:underline" title={item.sourceUrl}>
+                            {item.sourceTitle}
+                          </a>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="badge bg-gray-100 text-gray-700">{INBOX_STATUS_LABELS[item.status]}</span>
+                        {item.status === 'open' ? (
+                          <>
+                            <button onClick={() => handleInboxStatus([item.id], 'done')} className="text-primary-600 hover:underline">
+                              Done
+                            </button>
+                            <select
+                              value=""
+                              onChange={(e) => handleInboxSnooze([item.id], Number(e.target.value))}
+                              className="text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600"
+                            >
+                              <option value="" disabled>Snooze</option>
+                              <option value="1">1 day</option>
+                              <option value="3">3 days</option>
+                              <option value="7">1 week</option>
+                            </select>
+                          </>
+                        ) : (
+                          <button onClick={() => handleInboxStatus([item.id], 'open')} className="text-gray-500 hover:underline">
+                            Reopen
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })()}
+
         {/* History Tab */}
         {activeTab === 'history' && (
-          <div className="card">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-lg font-semibold text-gray-900">Extraction History</h2>
-              {history.length > 0 && (
-                <button onClick={handleClearHistory} className="text-sm text-red-500 hover:underline">
-                  Clear All
-                </button>
+          <div className="space-y-6">
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Extract from File</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                PDFs, Word documents (.docx), text and Markdown files, and .vtt or .srt meeting transcripts are read on this device, keeping headings and speaker turns.
+              </p>
+              <label
+                className="block p-6 border-2 border-dashed border-gray-300 rounded-lg text-center text-sm text-gray-600 cursor-pointer hover:border-primary-500"
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const file = e.dataTransfer.files[0];
+                  if (file) handleExtractFile(file);
+                }}
+              >
+                📎 Drop a file here or <span className="text-primary-600 underline">choose one</span>
+                <input
+                  type="file"
+                  accept={SUPPORTED_FILE_TYPES}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleExtractFile(file);
+                  }}
+                />
+              </label>
+              {fileMessage && (
+                <p className={`text-sm mt-3 ${fileMessage.error ? 'text-red-600' : 'text-gray-600'}`}>{fileMessage.text}</p>
               )}
             </div>
 
-            {history.length === 0 ? (
-              <p className="text-gray-500 text-center py-8">No extractions yet</p>
-            ) : (
-              <div className="space-y-3">
-                {history.map((entry) => (
-                  <div
-                    key={entry.id}
-                    className="p-3 border border-gray-200 rounded-lg hover:bg-gray-50"
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-gray-900 truncate">{entry.sourceTitle}</p>
-                        <p className="text-sm text-gray-500 truncate">{entry.sourceUrl}</p>
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-900">Extraction History</h2>
+                {history.length > 0 && (
+                  <button onClick={handleClearHistory} className="text-sm text-red-500 hover:underline">
+                    Clear All
+                  </button>
+                )}
+              </div>
+
+              {/* Retention window and storage use */}
+              {(() => {
+                const policy = getRetentionPolicy(settings);
+                const usedMb = (estimateBytes(history) + estimateBytes(Object.values(extractions))) / (1024 * 1024);
+                return (
+                  <div className="mb-4 p-3 rounded-lg bg-gray-50 text-sm text-gray-600">
+                    <p>
+                      Keeping history for <strong>{describeRetention(policy.days)}</strong> · {usedMb.toFixed(1)} of {policy.budgetBytes / (1024 * 1024)} MB used
+                      {!settings.isPro && (
+                        <>
+                          {' · '}
+                          <button onClick={() => setActiveTab('license')} className="text-primary-600 hover:underline">
+                            Upgrade to Pro
+                          </button>{' '}
+                          to keep history longer
+                        </>
+                      )}
+                    </p>
+                    {settings.isPro && (
+                      <div className="grid grid-cols-2 gap-4 mt-3">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Keep history for</label>
+                          <select
+                            value={settings.historyRetentionDays}
+                            onChange={(e) => handleRetentionChange({ historyRetentionDays: Number(e.target.value) })}
+                            className="input text-sm"
+                          >
+                            {RETENTION_DAY_OPTIONS.map((days) => (
+                              <option key={days} value={days}>{describeRetention(days)}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">Storage budget</label>
+                          <select
+                            value={settings.storageBudgetMb}
+                            onChange={(e) => handleRetentionChange({ storageBudgetMb: Number(e.target.value) })}
+                            className="input text-sm"
+                          >
+                            {STORAGE_BUDGET_OPTIONS.map((mb) => (
+                              <option key={mb} value={mb}>{mb} MB</option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
-                      <span className="ml-2 badge bg-primary-100 text-primary-700">
-                        {entry.taskCount} task{entry.taskCount !== 1 ? 's' : ''}
-                      </span>
-                    </div>
+                    )}
                     <p className="text-xs text-gray-400 mt-2">
-                      {new Date(entry.extractedAt).toLocaleString()}
+                      Older entries are removed automatically. When storage runs over budget the oldest task lists go first.
                     </p>
                   </div>
-                ))}
-              </div>
-            )}
+                );
+              })()}
+
+              {history.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No extractions yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {history.map((entry) => {
+                    const extraction = extractions[entry.id];
+                    return (
+                      <div
+                        key={entry.id}
+                        onClick={extraction ? () => openExtraction(entry.id) : undefined}
+                        className={`p-3 border border-gray-200 rounded-lg ${extraction ? 'hover:bg-gray-50 cursor-pointer' : ''}`}
+                        title={extraction ? 'Open to review, edit and re-export' : undefined}
+                      >
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-gray-900 truncate">{entry.sourceTitle}</p>
+                            <p className="text-sm text-gray-500 truncate">{entry.sourceUrl}</p>
+                          </div>
+                          <span className="ml-2 badge bg-primary-100 text-primary-700">
+                            {entry.taskCount} task{entry.taskCount !== 1 ? 's' : ''}
+                          </span>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-400">
+                          <span>{new Date(entry.extractedAt).toLocaleString()}</span>
+                          {extraction?.exports?.map((e, i) => (
+                            <span key={i} className="badge bg-green-100 text-green-700" title={new Date(e.exportedAt).toLocaleString()}>
+                              ↗ {exporterName(e.destination)}
+                            </span>
+                          ))}
+                          {!extraction && (
+                            <span className="text-amber-600">
+                              Tasks no longer stored. They were removed by retention or replaced by a newer extraction of this page.
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
           </div>
         )}
 
@@ -1317,6 +1723,7 @@ const Options: React.FC = () => {
         {/* Save Button */}
         {(activeTab === 'general' || activeTab === 'integrations' || activeTab === 'rules') && (
           <div className="mt-6 flex items-center justify-end gap-4">
+            {permissionWarning && <span className="text-amber-600 text-sm">{permissionWarning}</span>}
             {saved && <span className="text-green-600 text-sm">Settings saved!</span>}
             <button onClick={handleSave} disabled={saving} className="btn-primary">
               {saving ? 'Saving...' : 'Save Settings'}
@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import type {
   ExtractedTask,
-  ExtractionResult,
+  ExtractionJob,
+  ExtractionExport,
+  ExtractionProgress,
   Settings,
   ExportDestination,
   TaskCategory,
   TaskPriority,
   ExtractionMode,
+  SyncRecord,
+  SiteInfoResponse,
+  DuplicateMatch,
 } from '../types';
 import {
   PRIORITY_COLORS,
   CATEGORY_ICONS,
   CATEGORY_LABELS,
+  PRIORITY_LABELS,
   EXTRACTION_MODE_LABELS,
   EXTRACTION_MODE_DESCRIPTIONS,
   TIME_ESTIMATE_LABELS,
@@ -21,31 +27,20 @@ import {
   getSettings,
   saveSettings,
   canExtract,
-  incrementUsage,
-  generateId,
-  saveExtraction,
-  addToHistory,
-  trackExtraction,
-  trackExport,
+  getJobs,
+  onJobsChanged,
+  getExtractionById,
+  saveExtractionTasks,
+  recordExtractionExport,
 } from '../lib/storage';
 import { DEFAULT_TEMPLATES, type TaskTemplate } from '../types';
-import { extractTasks } from '../lib/ai';
-import {
-  formatAsPlainText,
-  formatAsMarkdown,
-  formatAsCSV,
-  formatAsJSON,
-  exportToNotion,
-  exportToTodoist,
-  exportToClickUp,
-  exportToAsana,
-  exportToLinear,
-  exportToTrello,
-  exportToJira,
-  sendToSlack,
-  copyToClipboard,
-  downloadFile,
-} from '../lib/export';
+import { describeAppliedRule } from '../lib/rules';
+import { validateProviderSettings } from '../lib/providers';
+import { exportTasks, withSyncRecords } from '../lib/export';
+import { EXPORTERS, exporterName } from '../lib/exporters';
+import { classifyPage, type ModeSuggestion } from '../lib/mode-classifier';
+import { parseFile, isPdfUrl, fetchPdfText, SUPPORTED_FILE_TYPES } from '../lib/file-parsers';
+import { getInboxItems } from '../lib/inbox';
 
 type View = 'idle' | 'extracting' | 'results' | 'exporting' | 'error';
 
@@ -60,22 +55,54 @@ const Popup: React.FC = () => {
     remaining: 5,
   });
   const [pageInfo, setPageInfo] = useState<{ title: string; url: string } | null>(null);
-  const [exportSuccess, setExportSuccess] = useState<string | null>(null);
+  const [exportSuccess, setExportSuccess] = useState<{ text: string; partial: boolean } | null>(null);
   const [isDark, setIsDark] = useState(false);
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
-  const [editingField, setEditingField] = useState<'title' | 'description' | null>(null);
-  const [extractMode, setExtractMode] = useState<'page' | 'selection'>('page');
-  const [selectedText, setSelectedText] = useState<string | null>(null);
+  const [editingField, setEditingField] = useState<'title' | 'description' | 'dueDate' | null>(null);
   const [categoryFilter, _setCategoryFilter] = useState<TaskCategory | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [extractionMode, setExtractionMode] = useState<ExtractionMode>('general');
   const [selectedTemplate, setSelectedTemplate] = useState<TaskTemplate | null>(null);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [liveTasks, setLiveTasks] = useState<ExtractedTask[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [extractionId, setExtractionId] = useState<string | null>(null);
+  const [pastExports, setPastExports] = useState<ExtractionExport[]>([]);
+  const [modeSuggestion, setModeSuggestion] = useState<ModeSuggestion | null>(null);
+  const [suggestionApplied, setSuggestionApplied] = useState(false);
 
   useEffect(() => {
     loadInitialData();
-    checkExtractMode();
+
+    // History entries open the popup with ?extraction=<id>
+    const restoreId = new URLSearchParams(window.location.search).get('extraction');
+    if (restoreId) {
+      restoreExtraction(restoreId);
+    } else {
+      attachToJob();
+    }
   }, []);
 
+  // Keep edits to a stored extraction so reopening it shows them
+  useEffect(() => {
+    if (extractionId && view === 'results') {
+      saveExtractionTasks(extractionId, tasks);
+    }
+  }, [tasks]);
+
+  // Follow the background extraction job until it finishes
+  useEffect(() => {
+    if (!activeJobId) return;
+    const update = (jobs: ExtractionJob[]) => {
+      const job = jobs.find((j) => j.id === activeJobId);
+      if (job) handleJobUpdate(job);
+    };
+    const unsubscribe = onJobsChanged(update);
+    // Catch up on changes made before the listener was attached
+    getJobs().then(update);
+    return unsubscribe;
+  }, [activeJobId]);
+
   // Apply dark mode
   useEffect(() => {
     if (settings) {
@@ -86,14 +113,54 @@ const Popup: React.FC = () => {
     }
   }, [settings]);
 
-  async function checkExtractMode() {
-    const result = await chrome.storage.local.get(['ate_extract_mode', 'ate_selected_text']);
-    if (result.ate_extract_mode === 'selection' && result.ate_selected_text) {
-      setExtractMode('selection');
-      setSelectedText(result.ate_selected_text);
-      // Clear the stored values
-      await chrome.storage.local.remove(['ate_extract_mode', 'ate_selected_text']);
+  // Reattach to an extraction that is running or finished while the popup was closed
+  async function attachToJob() {
+    const [latest] = await getJobs();
+    if (latest) setActiveJobId(latest.id);
+  }
+
+  async function restoreExtraction(id: string) {
+    const extraction = await getExtractionById(id);
+    if (!extraction) {
+      setError('This extraction is no longer stored. Older extractions are removed by your history retention settings, and only the latest extraction of each page is kept. Extract the page again to get its tasks back.');
+      setView('error');
+      return;
     }
+    setTasks(extraction.tasks);
+    setPageInfo({ title: extraction.sourceTitle, url: extraction.sourceUrl });
+    setExtractionId(extraction.id);
+    setPastExports(extraction.exports || []);
+    setView('results');
+  }
+
+  function handleJobUpdate(job: ExtractionJob) {
+    switch (job.status) {
+      case 'queued':
+      case 'running':
+        setView('extracting');
+        setLiveTasks(job.tasks);
+        setProgress(job.progress || null);
+        return;
+      case 'completed':
+        setTasks(job.tasks);
+        setPageInfo({ title: job.sourceTitle, url: job.sourceUrl });
+        setExtractionId(job.extractionId || null);
+        setPastExports([]);
+        canExtract().then(setUsage);
+        setView('results');
+        break;
+      case 'failed':
+        setError(job.error || 'Extraction failed');
+        setView('error');
+        break;
+      case 'cancelled':
+        setView('idle');
+        break;
+    }
+
+    setActiveJobId(null);
+    setLiveTasks([]);
+    chrome.runtime.sendMessage({ type: 'ACKNOWLEDGE_EXTRACTION_JOB', jobId: job.id });
   }
 
   async function loadInitialData() {
@@ -103,6 +170,9 @@ const Popup: React.FC = () => {
     ]);
     setSettings(loadedSettings);
     setUsage(usageStatus);
+    if (loadedSettings.defaultExtractionMode === 'general' || loadedSettings.isPro) {
+      setExtractionMode(loadedSettings.defaultExtractionMode);
+    }
 
     // Get current page info
     try {
@@ -110,11 +180,47 @@ const Popup: React.FC = () => {
       if (tab.title && tab.url) {
         setPageInfo({ title: tab.title, url: tab.url });
       }
+      await detectMode(tab, loadedSettings);
     } catch {
       // Ignore
     }
   }
 
+  // Suggest the mode and template that suit the page, e.g. Email on Gmail
+  async function detectMode(tab: chrome.tabs.Tab, loadedSettings: Settings) {
+    let info: SiteInfoResponse = {};
+    if (tab.id) {
+      try {
+        info = (await chrome.tabs.sendMessage(tab.id, { type: 'GET_SITE_INFO' })) || {};
+      } catch {
+        // No content script on this page; the URL and title are still scored
+      }
+    }
+
+    const suggestion = classifyPage({
+      url: tab.url || '',
+      title: tab.title || '',
+      site: info.site,
+      siteMode: info.suggestedMode,
+      signals: info.signals,
+    });
+    setModeSuggestion(suggestion);
+    if (suggestion && loadedSettings.autoDetectMode) {
+      applySuggestion(suggestion, loadedSettings);
+    }
+  }
+
+  function applySuggestion(suggestion: ModeSuggestion, currentSettings: Settings) {
+    // Email and Meeting modes and templates are Pro features
+    if (suggestion.mode !== 'general' && !currentSettings.isPro) return;
+    const template = currentSettings.isPro
+      ? DEFAULT_TEMPLATES.find((t) => t.id === suggestion.templateId)
+      : undefined;
+    setExtractionMode(suggestion.mode);
+    setSelectedTemplate(template || null);
+    setSuggestionApplied(true);
+  }
+
   async function toggleDarkMode() {
     if (!settings) return;
     const newTheme = isDark ? 'light' : 'dark';
@@ -123,7 +229,8 @@ const Popup: React.FC = () => {
     await saveSettings(newSettings);
   }
 
-  async function handleExtract() {
+  // A file is given by "Extract from file"; otherwise the active tab is read
+  async function handleExtract(file?: File) {
     if (!settings) return;
 
     if (!usage.allowed) {
@@ -132,53 +239,54 @@ const Popup: React.FC = () => {
       return;
     }
 
-    const apiKey = settings.aiProvider === 'openai'
-      ? settings.openaiApiKey
-      : settings.anthropicApiKey;
-
-    if (!apiKey) {
-      setError(`Please configure your ${settings.aiProvider === 'openai' ? 'OpenAI' : 'Anthropic'} API key in settings.`);
+    const providerError = validateProviderSettings(settings);
+    if (providerError) {
+      setError(providerError);
       setView('error');
       return;
     }
 
     setView('extracting');
     setError('');
+    setProgress(null);
+    setLiveTasks([]);
 
     try {
       let content: string;
       let title: string;
       let url: string;
-
-      // Get page content from content script or use selected text
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (!tab.id) throw new Error('No active tab');
-
-      if (extractMode === 'selection' && selectedText) {
-        // Use the selected text
-        content = selectedText;
-        title = tab.title || 'Selected Text';
-        url = tab.url || '';
+      let publishedAt: string | undefined;
+      let mode = selectedTemplate?.extractionMode || extractionMode;
+
+      if (file) {
+        const parsed = await parseFile(file);
+        ({ content, title, sourceUrl: url } = parsed);
+        setPageInfo({ title, url });
+        // Caption files use Transcript mode unless another mode was picked
+        if (parsed.suggestedMode && settings.isPro && !selectedTemplate && extractionMode === 'general') {
+          mode = parsed.suggestedMode;
+        }
       } else {
-        // Get full page content
-        const response = await chrome.tabs.sendMessage(tab.id, { type: 'GET_PAGE_CONTENT' });
-        if (!response?.content) {
-          throw new Error('Could not extract page content. Try refreshing the page.');
+        // Get page content from content script
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab.id) throw new Error('No active tab');
+
+        if (tab.url && isPdfUrl(tab.url)) {
+          // Content scripts do not run in Chrome's PDF viewer
+          content = await fetchPdfText(tab.url);
+          title = tab.title || 'PDF';
+          url = tab.url;
+        } else {
+          // Get full page content
+          const response = await chrome.tabs.sendMessage(tab.id, { type: 'GET_PAGE_CONTENT' });
+          if (!response?.content) {
+            throw new Error('Could not extract page content. Try refreshing the page.');
+          }
+          content = response.content;
+          title = response.title;
+          url = response.url;
+          publishedAt = response.publishedAt;
         }
-        content = response.content;
-        title = response.title;
-        url = response.url;
-      }
-
-      // Use template settings if selected
-      const mode = selectedTemplate?.extractionMode || extractionMode;
-      const customRules = selectedTemplate?.customRules;
-      const extractedTasks = await extractTasks(content, title, settings, mode, customRules);
-
-      if (extractedTasks.length === 0) {
-        setError('No tasks found. Try a different page or selection with action items or meeting notes.');
-        setView('error');
-        return;
       }
 
       // Save previous tasks for undo
@@ -186,43 +294,37 @@ const Popup: React.FC = () => {
         setPreviousTasks([...tasks]);
       }
 
-      setTasks(extractedTasks);
-      setPageInfo({ title, url });
-
-      // Track analytics
-      await trackExtraction(mode, extractedTasks);
-      await incrementUsage();
-      const newUsage = await canExtract();
-      setUsage(newUsage);
-
-      // Save to history
-      const extraction: ExtractionResult = {
-        id: generateId(),
-        sourceUrl: url,
-        sourceTitle: title,
-        tasks: extractedTasks,
-        extractedAt: Date.now(),
-      };
-      await saveExtraction(extraction);
-      await addToHistory({
-        id: extraction.id,
-        sourceUrl: url,
-        sourceTitle: title,
-        taskCount: extractedTasks.length,
-        extractedAt: Date.now(),
+      // The service worker runs the extraction so it survives the popup closing
+      const response = await chrome.runtime.sendMessage({
+        type: 'START_EXTRACTION_JOB',
+        payload: {
+          content,
+          sourceUrl: url,
+          sourceTitle: title,
+          // Use template settings if selected
+          mode,
+          customRules: selectedTemplate?.customRules,
+          publishedAt,
+        },
       });
-
-      // Reset extract mode
-      setExtractMode('page');
-      setSelectedText(null);
-
-      setView('results');
+      if (!response?.jobId) {
+        throw new Error(response?.error || 'Could not start extraction');
+      }
+      setActiveJobId(response.jobId);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Extraction failed');
       setView('error');
     }
   }
 
+  function handleCancelExtract() {
+    if (activeJobId) {
+      chrome.runtime.sendMessage({ type: 'CANCEL_EXTRACTION_JOB', jobId: activeJobId });
+    } else {
+      setView('idle');
+    }
+  }
+
   function handleUndo() {
     if (previousTasks) {
       setTasks(previousTasks);
@@ -230,13 +332,20 @@ const Popup: React.FC = () => {
     }
   }
 
-  function handleEditTask(taskId: string, field: 'title' | 'description', value: string) {
+  function handleEditTask(taskId: string, field: 'title' | 'description' | 'dueDate', value: string) {
+    setEditingTaskId(null);
+    setEditingField(null);
+    // A task keeps its title when the field is cleared
+    if (field === 'title' && !value.trim()) return;
+
     setPreviousTasks([...tasks]); // Save for undo
     setTasks((prev) =>
-      prev.map((t) => (t.id === taskId ? { ...t, [field]: value } : t))
+      prev.map((t) => {
+        if (t.id !== taskId) return t;
+        // Clearing the date removes the due date
+        return field === 'dueDate' ? { ...t, dueDate: value || undefined } : { ...t, [field]: value };
+      })
     );
-    setEditingTaskId(null);
-    setEditingField(null);
   }
 
   function handleChangeTaskPriority(taskId: string, priority: TaskPriority) {
@@ -310,132 +419,26 @@ const Popup: React.FC = () => {
     setView('exporting');
 
     try {
-      switch (destination) {
-        case 'clipboard':
-          await copyToClipboard(formatAsPlainText(tasks));
-          await trackExport('clipboard');
-          setExportSuccess('Copied to clipboard!');
-          break;
-        case 'markdown':
-          await copyToClipboard(formatAsMarkdown(tasks, pageInfo.title));
-          await trackExport('markdown');
-          setExportSuccess('Markdown copied to clipboard!');
-          break;
-        case 'csv':
-          if (!settings.isPro) {
-            setError('CSV export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          downloadFile(
-            formatAsCSV(tasks, pageInfo.title),
-            `tasks-${new Date().toISOString().split('T')[0]}.csv`,
-            'text/csv'
-          );
-          await trackExport('csv');
-          setExportSuccess('CSV downloaded!');
-          break;
-        case 'json':
-          if (!settings.isPro) {
-            setError('JSON export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          downloadFile(
-            formatAsJSON(tasks, pageInfo.title),
-            `tasks-${new Date().toISOString().split('T')[0]}.json`,
-            'application/json'
-          );
-          await trackExport('json');
-          setExportSuccess('JSON downloaded!');
-          break;
-        case 'notion':
-          if (!settings.isPro) {
-            setError('Notion export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToNotion(tasks, settings, pageInfo.title);
-          await trackExport('notion');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to Notion!`);
-          break;
-        case 'todoist':
-          if (!settings.isPro) {
-            setError('Todoist export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToTodoist(tasks, settings);
-          await trackExport('todoist');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to Todoist!`);
-          break;
-        case 'clickup':
-          if (!settings.isPro) {
-            setError('ClickUp export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToClickUp(tasks, settings);
-          await trackExport('clickup');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to ClickUp!`);
-          break;
-        case 'asana':
-          if (!settings.isPro) {
-            setError('Asana export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToAsana(tasks, settings);
-          await trackExport('asana');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to Asana!`);
-          break;
-        case 'linear':
-          if (!settings.isPro) {
-            setError('Linear export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToLinear(tasks, settings);
-          await trackExport('linear');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to Linear!`);
-          break;
-        case 'trello':
-          if (!settings.isPro) {
-            setError('Trello export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToTrello(tasks, settings);
-          await trackExport('trello');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to Trello!`);
-          break;
-        case 'jira':
-          if (!settings.isPro) {
-            setError('Jira export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await exportToJira(tasks, settings);
-          await trackExport('jira');
-          setExportSuccess(`Exported ${selectedTasks.length} tasks to Jira!`);
-          break;
-        case 'slack':
-          if (!settings.isPro) {
-            setError('Slack export is a Pro feature. Upgrade to unlock.');
-            setView('error');
-            return;
-          }
-          await sendToSlack(tasks, settings, pageInfo.title);
-          await trackExport('slack');
-          setExportSuccess(`Sent ${selectedTasks.length} tasks to Slack!`);
-          break;
-        case 'google-tasks':
-          setError('Google Tasks integration requires OAuth setup. Coming soon!');
-          setView('error');
-          return;
+      // Keep remote ids as they arrive so exporting again updates instead of duplicating
+      const saveSyncRecords = async (records: Map<string, SyncRecord>) => {
+        const synced = withSyncRecords(tasks, destination, records);
+        setTasks(synced);
+        if (extractionId) await saveExtractionTasks(extractionId, synced);
+      };
+      const summary = await exportTasks(destination, tasks, settings, pageInfo.title, {
+        onSynced: saveSyncRecords,
+        extractionId: extractionId || undefined,
+        sourceUrl: pageInfo.url,
+      });
+      if (extractionId && summary.exported > 0) {
+        await recordExtractionExport(extractionId, destination, summary.exported);
+        setPastExports((prev) => [...prev, { destination, taskCount: summary.exported, exportedAt: Date.now() }]);
       }
+      // Partial exports stay up longer so the queued count can be read
+      const partial = summary.exported < summary.total;
+      setExportSuccess({ text: summary.message, partial });
       setView('results');
-      setTimeout(() => setExportSuccess(null), 3000);
+      setTimeout(() => setExportSuccess(null), partial ? 8000 : 3000);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Export failed');
       setView('error');
@@ -446,14 +449,39 @@ const Popup: React.FC = () => {
     chrome.runtime.openOptionsPage();
   }
 
+  function openExtractionTab(id: string) {
+    chrome.tabs.create({ url: chrome.runtime.getURL(`popup.html?extraction=${encodeURIComponent(id)}`) });
+  }
+
+  function openInbox() {
+    chrome.tabs.create({ url: chrome.runtime.getURL('options.html#inbox') });
+  }
+
+  // Re-extracting a page replaces its stored extraction, so the match may
+  // only be left in the inbox, or not at all
+  async function openDuplicate(match: DuplicateMatch) {
+    if (await getExtractionById(match.extractionId)) {
+      openExtractionTab(match.extractionId);
+    } else if ((await getInboxItems()).some((item) => item.id === match.taskId)) {
+      openInbox();
+    } else if (match.sourceUrl) {
+      chrome.tabs.create({ url: match.sourceUrl });
+    }
+  }
+
   function handleReset() {
     setView('idle');
     setTasks([]);
+    setExtractionId(null);
+    setPastExports([]);
     setError('');
     setExportSuccess(null);
   }
 
   const selectedCount = tasks.filter((t) => t.selected).length;
+  const duplicateCount = tasks.filter((t) => t.duplicateOf && !t.selected).length;
+  const freeExporters = EXPORTERS.filter((exporter) => !exporter.pro);
+  const proExporters = EXPORTERS.filter((exporter) => exporter.pro);
 
   // Render idle view
   if (view === 'idle') {
@@ -478,6 +506,16 @@ const Popup: React.FC = () => {
                 </svg>
               )}
             </button>
+            {/* Inbox button */}
+            <button
+              onClick={openInbox}
+              className={`p-1.5 rounded-lg transition-colors ${isDark ? 'text-gray-400 hover:text-gray-200 hover:bg-gray-700' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`}
+              title="Task inbox"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
+              </svg>
+            </button>
             {/* Settings button */}
             <button
               onClick={openOptions}
@@ -499,27 +537,6 @@ const Popup: React.FC = () => {
           </div>
         )}
 
-        {/* Selected text indicator */}
-        {extractMode === 'selection' && selectedText && (
-          <div className={`mb-4 p-3 rounded-lg border-2 border-dashed ${isDark ? 'bg-primary-900/20 border-primary-700' : 'bg-primary-50 border-primary-200'}`}>
-            <div className="flex items-center gap-2 mb-2">
-              <svg className={`w-4 h-4 ${isDark ? 'text-primary-400' : 'text-primary-600'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
-              </svg>
-              <span className={`text-xs font-medium ${isDark ? 'text-primary-300' : 'text-primary-700'}`}>Extracting from selection</span>
-            </div>
-            <p className={`text-xs truncate ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-              "{selectedText.substring(0, 100)}{selectedText.length > 100 ? '...' : ''}"
-            </p>
-            <button
-              onClick={() => { setExtractMode('page'); setSelectedText(null); }}
-              className={`mt-2 text-xs ${isDark ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}
-            >
-              Use full page instead
-            </button>
-          </div>
-        )}
-
         <div className="text-center py-6">
           <div className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 ${isDark ? 'bg-primary-900/30' : 'bg-primary-100'}`}>
             <svg className="w-8 h-8 text-primary-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -527,10 +544,10 @@ const Popup: React.FC = () => {
             </svg>
           </div>
           <h2 className={`text-lg font-semibold mb-2 ${isDark ? 'text-gray-100' : 'text-gray-900'}`}>
-            {extractMode === 'selection' ? 'Extract Tasks from Selection' : 'Extract Tasks from This Page'}
+            Extract Tasks from This Page
           </h2>
           <p className={`text-sm mb-4 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-            AI will analyze the {extractMode === 'selection' ? 'selected text' : 'page content'} and identify actionable tasks, deadlines, and follow-ups.
+            AI will analyze the page content and identify actionable tasks, deadlines, and follow-ups.
           </p>
 
           {/* Template selector (Pro only) */}
@@ -584,8 +601,8 @@ const Popup: React.FC = () => {
             <label className={`block text-xs mb-2 ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
               Extraction Mode:
             </label>
-            <div className="flex gap-2 justify-center">
-              {(['general', 'email', 'meeting'] as ExtractionMode[]).map((mode) => {
+            <div className="flex gap-2 justify-center flex-wrap">
+              {(['general', 'email', 'meeting', 'transcript'] as ExtractionMode[]).map((mode) => {
                 const isLocked = mode !== 'general' && !settings?.isPro;
                 return (
                   <button
@@ -614,6 +631,7 @@ const Popup: React.FC = () => {
                   >
                     {mode === 'email' && '📧 '}
                     {mode === 'meeting' && '📅 '}
+                    {mode === 'transcript' && '🎙 '}
                     {mode === 'general' && '📄 '}
                     {EXTRACTION_MODE_LABELS[mode]}
                     {isLocked && ' 🔒'}
@@ -624,14 +642,61 @@ const Popup: React.FC = () => {
             <p className={`text-xs mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
               {selectedTemplate?.description || EXTRACTION_MODE_DESCRIPTIONS[extractionMode]}
             </p>
+            {modeSuggestion && settings && (() => {
+              const template = settings.isPro
+                ? DEFAULT_TEMPLATES.find((t) => t.id === modeSuggestion.templateId)
+                : undefined;
+              const locked = modeSuggestion.mode !== 'general' && !settings.isPro;
+              const inUse =
+                modeSuggestion.mode === extractionMode && (template?.id || null) === (selectedTemplate?.id || null);
+              const suggested = `${EXTRACTION_MODE_LABELS[modeSuggestion.mode]} mode${
+                template ? ` with the ${template.name} template` : ''
+              }`;
+              return (
+                <p className={`text-xs mt-1 ${isDark ? 'text-primary-400' : 'text-primary-600'}`}>
+                  {inUse
+                    ? `${suggestionApplied ? 'Selected' : 'Suggested'} ${suggested}`
+                    : `Suggested: ${suggested}${locked ? ' (Pro)' : ''}`}
+                  {' '}
+                  <span className={isDark ? 'text-gray-500' : 'text-gray-400'}>
+                    ({modeSuggestion.reasons.slice(0, 3).join(', ')})
+                  </span>
+                  {!inUse && !locked && (
+                    <button
+                      onClick={() => applySuggestion(modeSuggestion, settings)}
+                      className="ml-1 underline hover:no-underline"
+                    >
+                      Use
+                    </button>
+                  )}
+                </p>
+              );
+            })()}
           </div>
 
           <button
-            onClick={handleExtract}
+            onClick={() => handleExtract()}
             className="btn-primary w-full"
           >
             Extract Tasks
           </button>
+
+          <label
+            className={`block mt-2 text-xs cursor-pointer hover:underline ${isDark ? 'text-gray-400' : 'text-gray-500'}`}
+            title="PDF, Word (.docx), text, Markdown, or a .vtt/.srt transcript"
+          >
+            📎 Extract from file
+            <input
+              type="file"
+              accept={SUPPORTED_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ''; // Picking the same file again still fires onChange
+                if (file) handleExtract(file);
+              }}
+            />
+          </label>
         </div>
 
         {!settings?.isPro && (
@@ -647,11 +712,49 @@ const Popup: React.FC = () => {
   if (view === 'extracting') {
     return (
       <div className={`w-[400px] p-4 ${isDark ? 'bg-gray-900' : 'bg-white'}`}>
-        <div className="flex flex-col items-center justify-center py-12">
+        <div className={`flex flex-col items-center justify-center ${liveTasks.length > 0 ? 'py-6' : 'py-12'}`}>
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500 mb-4"></div>
-          <p className={isDark ? 'text-gray-300' : 'text-gray-600'}>Analyzing {extractMode === 'selection' ? 'selection' : 'page content'}...</p>
+          <p className={isDark ? 'text-gray-300' : 'text-gray-600'}>Analyzing page content...</p>
           <p className={`text-sm mt-2 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>Identifying tasks and action items</p>
+          {/* Section progress for long pages */}
+          {progress && progress.totalSections > 1 && (
+            <div className="w-full mt-4 px-6">
+              <div className={`w-full rounded-full h-1.5 ${isDark ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                <div
+                  className="bg-primary-500 h-1.5 rounded-full transition-all"
+                  style={{ width: `${Math.round((progress.completedSections / progress.totalSections) * 100)}%` }}
+                />
+              </div>
+              <p className={`text-xs mt-2 text-center ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                {progress.completedSections} of {progress.totalSections} sections analyzed · {progress.tasksFound} task{progress.tasksFound !== 1 ? 's' : ''} so far
+              </p>
+            </div>
+          )}
+          <button onClick={handleCancelExtract} className="btn-secondary mt-4">
+            Cancel
+          </button>
         </div>
+
+        {/* Tasks streamed in so far */}
+        {liveTasks.length > 0 && (
+          <div className="max-h-[240px] overflow-y-auto space-y-2">
+            {liveTasks.map((task) => (
+              <div key={task.id} className={`p-2 rounded-lg flex items-center gap-2 ${isDark ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                <span title={CATEGORY_LABELS[task.category]}>{CATEGORY_ICONS[task.category]}</span>
+                <span className={`flex-1 text-sm truncate ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{task.title}</span>
+                <span
+                  className="badge"
+                  style={{
+                    backgroundColor: `${PRIORITY_COLORS[task.priority]}20`,
+                    color: PRIORITY_COLORS[task.priority],
+                  }}
+                >
+                  {PRIORITY_LABELS[task.priority]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     );
   }
@@ -739,9 +842,20 @@ const Popup: React.FC = () => {
           {pageInfo && (
             <p className={`text-sm truncate ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{pageInfo.title}</p>
           )}
+          {pastExports.length > 0 && (
+            <p className={`text-xs mt-1 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+              Already exported: {pastExports.map((e) => `${exporterName(e.destination)} (${new Date(e.exportedAt).toLocaleDateString()})`).join(', ')}
+            </p>
+          )}
           {exportSuccess && (
-            <div className={`mt-2 p-2 text-sm rounded-lg ${isDark ? 'bg-green-900/30 text-green-400' : 'bg-green-50 text-green-700'}`}>
-              {exportSuccess}
+            <div
+              className={`mt-2 p-2 text-sm rounded-lg ${
+                exportSuccess.partial
+                  ? isDark ? 'bg-amber-900/30 text-amber-400' : 'bg-amber-50 text-amber-700'
+                  : isDark ? 'bg-green-900/30 text-green-400' : 'bg-green-50 text-green-700'
+              }`}
+            >
+              {exportSuccess.text}
             </div>
           )}
         </div>
@@ -751,6 +865,7 @@ const Popup: React.FC = () => {
           <div className="flex items-center justify-between mb-3">
             <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
               {selectedCount} of {filteredTasks.length} selected
+              {duplicateCount > 0 && ` · ${duplicateCount} likely duplicate${duplicateCount !== 1 ? 's' : ''} unselected`}
             </span>
             <div className="flex gap-2">
               <button onClick={selectAll} className="text-xs text-primary-500 hover:underline">
@@ -994,8 +1109,34 @@ const Popup: React.FC = () => {
                       {task.assignee && (
                         <span>👤 {task.assignee}</span>
                       )}
-                      {task.dueDate && (
-                        <span>📅 {task.dueDate}</span>
+                      {/* Due date, with the phrase it was resolved from so it can be corrected */}
+                      {editingTaskId === task.id && editingField === 'dueDate' ? (
+                        <input
+                          type="date"
+                          defaultValue={task.dueDate}
+                          autoFocus
+                          className={`task-edit-input text-xs w-auto ${isDark ? 'text-gray-300' : 'text-gray-600'}`}
+                          onBlur={(e) => handleEditTask(task.id, 'dueDate', e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              handleEditTask(task.id, 'dueDate', (e.target as HTMLInputElement).value);
+                            } else if (e.key === 'Escape') {
+                              setEditingTaskId(null);
+                              setEditingField(null);
+                            }
+                          }}
+                        />
+                      ) : (task.dueDate || task.dueDateText) && (
+                        <span
+                          className="cursor-pointer hover:underline"
+                          onClick={() => { setEditingTaskId(task.id); setEditingField('dueDate'); }}
+                          title="Click to correct the date"
+                        >
+                          📅 {task.dueDate || 'No date'}
+                          {task.dueDateText && task.dueDateText !== task.dueDate && (
+                            <span className="italic"> ("{task.dueDateText}")</span>
+                          )}
+                        </span>
                       )}
                       {/* Time estimate */}
                       {settings?.isPro && settings?.showTimeEstimates && task.timeEstimate && (
@@ -1017,6 +1158,24 @@ const Popup: React.FC = () => {
                       {task.attendees && task.attendees.length > 0 && (
                         <span title={task.attendees.join(', ')}>👥 {task.attendees.length}</span>
                       )}
+                      {/* Who committed to it, and when (transcript mode) */}
+                      {task.commitment && (
+                        task.commitment.url ? (
+                          <a
+                            href={task.commitment.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="hover:underline"
+                            title={task.commitment.quote ? `“${task.commitment.quote}”` : 'Open the recording here'}
+                          >
+                            🎙 {task.commitment.speaker}{task.commitment.timestamp && ` @ ${task.commitment.timestamp}`}
+                          </a>
+                        ) : (
+                          <span title={task.commitment.quote ? `“${task.commitment.quote}”` : undefined}>
+                            🎙 {task.commitment.speaker}{task.commitment.timestamp && ` @ ${task.commitment.timestamp}`}
+                          </span>
+                        )
+                      )}
                       {/* Confidence score */}
                       {settings?.isPro && settings.showConfidence && task.confidence !== undefined && (
                         <span
@@ -1032,7 +1191,46 @@ const Popup: React.FC = () => {
                           {Math.round(task.confidence * 100)}%
                         </span>
                       )}
+                      {/* Custom rules that changed this task */}
+                      {task.appliedRules && task.appliedRules.length > 0 && (
+                        <span
+                          className={`px-1.5 py-0.5 rounded ${isDark ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                          title={task.appliedRules.map(describeAppliedRule).join('\n')}
+                        >
+                          ⚙️ {task.appliedRules.length === 1 ? task.appliedRules[0].ruleName : `${task.appliedRules.length} rules`}
+                        </span>
+                      )}
                     </div>
+                    {/* Likely duplicate of an earlier task */}
+                    {task.duplicateOf && (
+                      <button
+                        onClick={() => openDuplicate(task.duplicateOf!)}
+                        className={`mt-1 text-xs text-left hover:underline ${isDark ? 'text-amber-400' : 'text-amber-700'}`}
+                        title={`${Math.round(task.duplicateOf.similarity * 100)}% similar · ${task.duplicateOf.sourceUrl}`}
+                      >
+                        ⧉ Possible duplicate of “{task.duplicateOf.title}” from {task.duplicateOf.sourceTitle} ({new Date(task.duplicateOf.extractedAt).toLocaleDateString()}
+                        {task.duplicateOf.exportedTo && `, exported to ${task.duplicateOf.exportedTo.map(exporterName).join(', ')}`})
+                      </button>
+                    )}
+                    {/* Remote copies from earlier exports */}
+                    {task.syncRecords && (
+                      <div className="mt-1 flex flex-wrap gap-x-3 text-xs">
+                        {(Object.entries(task.syncRecords) as [ExportDestination, SyncRecord][])
+                          .filter(([, record]) => record.url)
+                          .map(([destination, record]) => (
+                            <a
+                              key={destination}
+                              href={record.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`hover:underline ${isDark ? 'text-primary-400' : 'text-primary-600'}`}
+                              title={`Last exported ${new Date(record.syncedAt).toLocaleString()}`}
+                            >
+                              ↗ View in {exporterName(destination)}
+                            </a>
+                          ))}
+                      </div>
+                    )}
                     {/* Sub-tasks */}
                     {settings?.isPro && task.subTasks && task.subTasks.length > 0 && (
                       <div className={`mt-2 pl-4 border-l-2 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
@@ -1066,78 +1264,35 @@ const Popup: React.FC = () => {
 
           {/* Free export options */}
           <div className="grid grid-cols-2 gap-2 mb-2">
-            <button
-              onClick={() => handleExport('clipboard')}
-              className="btn-secondary text-sm py-2"
-            >
-              📋 Copy
-            </button>
-            <button
-              onClick={() => handleExport('markdown')}
-              className="btn-secondary text-sm py-2"
-            >
-              📝 Markdown
-            </button>
+            {freeExporters.map((exporter, index) => (
+              <button
+                key={exporter.id}
+                onClick={() => handleExport(exporter.id)}
+                className={`btn-secondary text-sm py-2 ${
+                  index === freeExporters.length - 1 && freeExporters.length % 2 === 1 ? 'col-span-2' : ''
+                }`}
+              >
+                {exporter.icon} {exporter.name}
+              </button>
+            ))}
           </div>
 
           {/* Pro export options */}
           <div className="grid grid-cols-3 gap-1.5">
-            <button
-              onClick={() => handleExport('csv')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              CSV {!settings?.isPro && '🔒'}
-            </button>
-            <button
-              onClick={() => handleExport('json')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              JSON {!settings?.isPro && '🔒'}
-            </button>
-            <button
-              onClick={() => handleExport('notion')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              Notion {!settings?.isPro && '🔒'}
-            </button>
-            <button
-              onClick={() => handleExport('todoist')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              Todoist {!settings?.isPro && '🔒'}
-            </button>
-            <button
-              onClick={() => handleExport('clickup')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              ClickUp {!settings?.isPro && '🔒'}
-            </button>
-            <button
-              onClick={() => handleExport('asana')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              Asana {!settings?.isPro && '🔒'}
-            </button>
-            <button
-              onClick={() => handleExport('linear')}
-              disabled={!settings?.isPro}
-              className="btn-outline text-xs py-1.5 disabled:opacity-50 col-span-3"
-              title={!settings?.isPro ? 'Pro feature' : ''}
-            >
-              Linear {!settings?.isPro && '🔒'}
-            </button>
+            {proExporters.map((exporter, index) => (
+              <button
+                key={exporter.id}
+                onClick={() => handleExport(exporter.id)}
+                disabled={!settings?.isPro}
+                className={`btn-outline text-xs py-1.5 disabled:opacity-50 ${
+                  // A lone button on the last row spans it
+                  index === proExporters.length - 1 && proExporters.length % 3 === 1 ? 'col-span-3' : ''
+                }`}
+                title={!settings?.isPro ? 'Pro feature' : exporter.label}
+              >
+                {exporter.name} {!settings?.isPro && '🔒'}
+              </button>
+            ))}
           </div>
         </div>
       </div>
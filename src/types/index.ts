@@ -44,21 +44,50 @@ export const CATEGORY_ICONS: Record<TaskCategory, string> = {
 };
 
 // AI Provider
-export type AIProvider = 'openai' | 'anthropic';
+// Built-in ids are 'openai', 'anthropic' and 'ollama'; custom endpoints use generated ids
+export type AIProvider = string;
+
+// Wire format spoken by a provider's API
+export type AIApiFormat = 'openai' | 'anthropic';
+
+// How the API key is sent to the provider
+export type AIAuthScheme = 'bearer' | 'x-api-key' | 'api-key' | 'none';
+
+export const AUTH_SCHEME_LABELS: Record<AIAuthScheme, string> = {
+  bearer: 'Authorization: Bearer <key>',
+  'x-api-key': 'x-api-key: <key>',
+  'api-key': 'api-key: <key> (Azure OpenAI)',
+  none: 'No authentication',
+};
+
+export interface AIProviderConfig {
+  id: AIProvider;
+  name: string;
+  apiFormat: AIApiFormat;
+  baseUrl: string; // e.g., https://api.openai.com/v1
+  authScheme: AIAuthScheme;
+  models: string[];
+  defaultModel: string;
+  apiKey?: string; // custom providers only; built-ins keep their keys in Settings
+  structuredOutput?: boolean; // JSON schema / tool output; defaults to true
+  builtIn?: boolean;
+}
 
 // Extraction mode
-export type ExtractionMode = 'general' | 'email' | 'meeting';
+export type ExtractionMode = 'general' | 'email' | 'meeting' | 'transcript';
 
 export const EXTRACTION_MODE_LABELS: Record<ExtractionMode, string> = {
   general: 'General',
   email: 'Email',
   meeting: 'Meeting Notes',
+  transcript: 'Transcript',
 };
 
 export const EXTRACTION_MODE_DESCRIPTIONS: Record<ExtractionMode, string> = {
   general: 'Works on any web page content',
   email: 'Optimized for Gmail, Outlook, and email threads',
   meeting: 'Smart detection for agendas, action items, and decisions',
+  transcript: 'Zoom, Teams and Otter transcripts: who committed to what, and when',
 };
 
 // Recurring pattern
@@ -94,6 +123,14 @@ export const TIME_ESTIMATE_LABELS: Record<TimeEstimate, string> = {
   '1w': '1 week',
 };
 
+// Who took a task on in a transcript, and where in the recording
+export interface TaskCommitment {
+  speaker: string;
+  timestamp?: string; // hh:mm:ss into the recording
+  quote?: string; // What they said
+  url?: string; // Opens the recording at the timestamp, for players that support it
+}
+
 // Sub-task
 export interface SubTask {
   id: string;
@@ -101,24 +138,8 @@ export interface SubTask {
   completed: boolean;
 }
 
-// Export destination
-export type ExportDestination = 'clipboard' | 'notion' | 'todoist' | 'clickup' | 'markdown' | 'csv' | 'json' | 'asana' | 'linear' | 'trello' | 'google-tasks' | 'jira' | 'slack';
-
-export const EXPORT_LABELS: Record<ExportDestination, string> = {
-  clipboard: 'Copy to Clipboard',
-  notion: 'Export to Notion',
-  todoist: 'Export to Todoist',
-  clickup: 'Export to ClickUp',
-  markdown: 'Copy as Markdown',
-  csv: 'Download CSV',
-  json: 'Download JSON',
-  asana: 'Export to Asana',
-  linear: 'Export to Linear',
-  trello: 'Export to Trello',
-  'google-tasks': 'Export to Google Tasks',
-  jira: 'Export to Jira',
-  slack: 'Send to Slack',
-};
+// Export destination; each has an exporter module in src/lib/exporters
+export type ExportDestination = 'clipboard' | 'notion' | 'todoist' | 'clickup' | 'markdown' | 'csv' | 'json' | 'asana' | 'linear' | 'trello' | 'google-tasks' | 'jira' | 'slack' | 'ics';
 
 // Extracted task
 export interface ExtractedTask {
@@ -129,6 +150,7 @@ export interface ExtractedTask {
   category: TaskCategory;
   assignee?: string;
   dueDate?: string;
+  dueDateText?: string; // The date as written, e.g. "by Friday"
   context?: string;
   selected: boolean;
   confidence?: number; // 0-1 confidence score from AI
@@ -136,7 +158,31 @@ export interface ExtractedTask {
   recurring?: RecurringPattern; // Recurring pattern if detected
   timeEstimate?: TimeEstimate; // Estimated effort
   sender?: string; // Email sender (for email mode)
-  attendees?: string[]; // Meeting attendees (for meeting mode)
+  attendees?: string[]; // Meeting attendees (meeting mode), or the transcript's speakers (transcript mode)
+  commitment?: TaskCommitment; // Transcript mode
+  appliedRules?: AppliedRule[]; // Custom rules that fired on this task
+  duplicateOf?: DuplicateMatch; // Likely the same as a previously extracted task
+  syncRecords?: Partial<Record<ExportDestination, SyncRecord>>; // Remote copies from past exports
+}
+
+// The item an export created in a destination, so re-exports update it
+export interface SyncRecord {
+  remoteId: string;
+  url?: string;
+  syncedAt: number;
+  subTasks?: Record<string, string>; // Sub-task id to the remote id of its child item
+}
+
+// An earlier task that a new task probably repeats
+export interface DuplicateMatch {
+  taskId: string;
+  title: string;
+  extractionId: string;
+  sourceTitle: string;
+  sourceUrl: string;
+  extractedAt: number;
+  exportedTo?: ExportDestination[];
+  similarity: number; // 0-1
 }
 
 // Extraction result
@@ -146,6 +192,59 @@ export interface ExtractionResult {
   sourceTitle: string;
   tasks: ExtractedTask[];
   extractedAt: number;
+  exports?: ExtractionExport[];
+}
+
+// One export of an extraction's tasks
+export interface ExtractionExport {
+  destination: ExportDestination;
+  taskCount: number;
+  exportedAt: number;
+}
+
+// A task whose export failed with a transient error, retried later by the service worker
+export interface QueuedExport {
+  id: string; // "<destination>:<taskId>"
+  destination: ExportDestination;
+  task: ExtractedTask;
+  sourceTitle: string;
+  extractionId?: string;
+  attempts: number;
+  lastError: string;
+  queuedAt: number;
+  nextAttemptAt: number;
+}
+
+// Progress of a multi-section extraction
+export interface ExtractionProgress {
+  completedSections: number;
+  totalSections: number;
+  tasksFound: number;
+}
+
+export type ExtractionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// What the popup sends to the service worker to start an extraction
+export interface ExtractionJobRequest {
+  content: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  mode: ExtractionMode;
+  customRules?: ExtractionRule[];
+  publishedAt?: string; // Page publish or email sent date; relative due dates count from it
+  notify?: boolean; // show a system notification when done (context-menu extractions)
+}
+
+// An extraction owned by the service worker, persisted so the popup can reattach
+export interface ExtractionJob extends ExtractionJobRequest {
+  id: string;
+  status: ExtractionJobStatus;
+  tasks: ExtractedTask[];
+  progress?: ExtractionProgress;
+  error?: string;
+  extractionId?: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 // History entry
@@ -157,16 +256,63 @@ export interface HistoryEntry {
   extractedAt: number;
 }
 
+// Task inbox
+export type InboxStatus = 'open' | 'done' | 'snoozed' | 'exported';
+
+export const INBOX_STATUS_LABELS: Record<InboxStatus, string> = {
+  open: 'Open',
+  done: 'Done',
+  snoozed: 'Snoozed',
+  exported: 'Exported',
+};
+
+// A task kept in the inbox, linked back to the extraction it came from
+export interface InboxItem extends ExtractedTask {
+  status: InboxStatus;
+  extractionId: string;
+  sourceUrl: string;
+  sourceTitle: string;
+  addedAt: number;
+  updatedAt: number;
+  snoozedUntil?: number;
+  exportedTo?: ExportDestination;
+}
+
+export type InboxDueFilter = 'all' | 'overdue' | 'today' | 'week' | 'none';
+
+export const INBOX_DUE_FILTER_LABELS: Record<InboxDueFilter, string> = {
+  all: 'Any due date',
+  overdue: 'Overdue',
+  today: 'Due today',
+  week: 'Due this week',
+  none: 'No due date',
+};
+
+export interface InboxFilter {
+  status?: InboxStatus | 'all';
+  category?: TaskCategory | 'all';
+  priority?: TaskPriority | 'all';
+  assignee?: string; // 'all' or an assignee name
+  due?: InboxDueFilter;
+}
+
 // Theme preference
 export type ThemePreference = 'light' | 'dark' | 'system';
 
+// Calendar component written by the .ics export: a to-do, or an all-day event
+export type IcsComponent = 'VTODO' | 'VEVENT';
+
 // Settings
 export interface Settings {
   aiProvider: AIProvider;
   openaiApiKey: string;
   anthropicApiKey: string;
+  customProviders: AIProviderConfig[];
+  providerModels: Record<AIProvider, string>; // selected model per provider
   defaultExport: ExportDestination;
+  icsComponent: IcsComponent;
   defaultExtractionMode: ExtractionMode;
+  autoDetectMode: boolean; // Apply the suggested mode and template instead of only showing them
   notionApiKey: string;
   notionDatabaseId: string;
   todoistApiKey: string;
@@ -182,9 +328,12 @@ export interface Settings {
   trelloBoardId: string;
   trelloListId: string;
   googleTasksEnabled: boolean;
+  googleTasksListId: string; // Empty = the account's default list
+  jiraEmail: string;
   jiraApiToken: string;
   jiraDomain: string;
   jiraProjectKey: string;
+  jiraIssueTypeId: string; // Empty = Task
   slackWebhookUrl: string;
   slackChannel: string;
   licenseKey: string;
@@ -197,6 +346,8 @@ export interface Settings {
   extractionRules: ExtractionRule[];
   customTemplates: TaskTemplate[];
   keyboardShortcut: string;
+  historyRetentionDays: number; // Pro only, -1 = keep forever
+  storageBudgetMb: number; // Pro only, cap on stored history and extractions
 }
 
 // Tier limits
@@ -237,6 +388,18 @@ export interface ExtractionRule {
   };
 }
 
+// Record of a custom rule that matched a task
+export interface AppliedRule {
+  ruleId: string;
+  ruleName: string;
+  type: ExtractionRule['type'];
+  matched: string; // keyword or regex match that triggered the rule
+  changes: {
+    priority?: { from: TaskPriority; to: TaskPriority };
+    category?: { from: TaskCategory; to: TaskCategory };
+  };
+}
+
 export const DEFAULT_EXTRACTION_RULES: ExtractionRule[] = [
   { id: 'urgent', name: 'Urgent keywords', enabled: true, type: 'keyword', value: 'urgent,asap,critical,immediately', action: { priority: 'high' } },
   { id: 'deadline', name: 'Deadline keywords', enabled: true, type: 'keyword', value: 'deadline,due date,by end of', action: { category: 'deadline', priority: 'high' } },
@@ -299,7 +462,7 @@ export interface AnalyticsData {
   extractionsByMode: Record<ExtractionMode, number>;
   extractionsByCategory: Record<TaskCategory, number>;
   extractionsByPriority: Record<TaskPriority, number>;
-  exportsByDestination: Record<ExportDestination, number>;
+  exportsByDestination: Partial<Record<ExportDestination, number>>;
   averageTasksPerExtraction: number;
   mostActiveDay: string;
   dailyStats: DailyStats[];
@@ -314,10 +477,10 @@ export interface DailyStats {
 export const EMPTY_ANALYTICS: AnalyticsData = {
   totalExtractions: 0,
   totalTasksExtracted: 0,
-  extractionsByMode: { general: 0, email: 0, meeting: 0 },
+  extractionsByMode: { general: 0, email: 0, meeting: 0, transcript: 0 },
   extractionsByCategory: { action: 0, 'follow-up': 0, decision: 0, deadline: 0, question: 0, idea: 0, other: 0 },
   extractionsByPriority: { high: 0, medium: 0, low: 0 },
-  exportsByDestination: { clipboard: 0, notion: 0, todoist: 0, clickup: 0, markdown: 0, csv: 0, json: 0, asana: 0, linear: 0, trello: 0, 'google-tasks': 0, jira: 0, slack: 0 },
+  exportsByDestination: {},
   averageTasksPerExtraction: 0,
   mostActiveDay: '',
   dailyStats: [],
@@ -336,8 +499,30 @@ export interface PageContentResponse {
   title: string;
   url: string;
   content: string;
+  publishedAt?: string;
+  site?: string; // Set when a site adapter recognised the page, e.g. "Gmail"
+  suggestedMode?: ExtractionMode;
+}
+
+export interface GetSiteInfoMessage {
+  type: 'GET_SITE_INFO';
+}
+
+// Page features read by the mode classifier
+export interface PageSignals {
+  headings: string[]; // h1-h4 text in page order
+  mailtoLinks: number;
+  textSample: string; // The start of the page's visible text
+}
+
+// site and suggestedMode are set when the page is a site with an adapter
+export interface SiteInfoResponse {
+  site?: string;
+  suggestedMode?: ExtractionMode;
+  signals?: PageSignals;
 }
 
 export type ExtensionMessage =
   | ExtractTasksMessage
-  | GetPageContentMessage;
+  | GetPageContentMessage
+  | GetSiteInfoMessage;
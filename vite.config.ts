@@ -28,9 +28,13 @@ function copyStaticFiles() {
         });
       }
 
+      // pdf.js runs its parser in a worker loaded from the extension
+      copyFileSync('node_modules/pdfjs-dist/build/pdf.worker.min.mjs', 'dist/pdf.worker.min.mjs');
+
       // Move HTML files to dist root
       const popupHtml = 'dist/src/popup/index.html';
       const optionsHtml = 'dist/src/options/index.html';
+      const offscreenHtml = 'dist/src/offscreen/index.html';
 
       if (existsSync(popupHtml)) {
         renameSync(popupHtml, 'dist/popup.html');
@@ -38,6 +42,9 @@ function copyStaticFiles() {
       if (existsSync(optionsHtml)) {
         renameSync(optionsHtml, 'dist/options.html');
       }
+      if (existsSync(offscreenHtml)) {
+        renameSync(offscreenHtml, 'dist/offscreen.html');
+      }
 
       // Clean up empty src folder
       if (existsSync('dist/src')) {
@@ -54,6 +61,7 @@ export default defineConfig({
       input: {
         popup: resolve(__dirname, 'src/popup/index.html'),
         options: resolve(__dirname, 'src/options/index.html'),
+        offscreen: resolve(__dirname, 'src/offscreen/index.html'),
         'content-script': resolve(__dirname, 'src/content/content-script.ts'),
         'service-worker': resolve(__dirname, 'src/background/service-worker.ts'),
       },